@@ -0,0 +1,38 @@
+import { writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+// Community-maintained blocklist, one domain per line.
+const SOURCE_URL =
+  process.env.DISPOSABLE_DOMAINS_URL ??
+  "https://raw.githubusercontent.com/disposable-email-domains/disposable-email-domains/main/disposable_email_blocklist.conf";
+
+const OUTPUT = fileURLToPath(new URL("../src/lib/disposable-domains.ts", import.meta.url));
+
+const response = await fetch(SOURCE_URL);
+if (!response.ok) {
+  throw new Error(`Fetching ${SOURCE_URL} failed with ${response.status}`);
+}
+
+const domains = [
+  ...new Set(
+    (await response.text())
+      .split("\n")
+      .map((line) => line.trim().toLowerCase())
+      .filter((line) => line && !line.startsWith("#")),
+  ),
+].sort();
+
+await writeFile(
+  OUTPUT,
+  [
+    "// Generated by scripts/update-disposable-domains.ts; run `npm run update:disposable-domains` to refresh.",
+    "// Hand edits are overwritten.",
+    "",
+    "export const DISPOSABLE_EMAIL_DOMAINS = [",
+    ...domains.map((domain) => `  ${JSON.stringify(domain)},`),
+    "];",
+    "",
+  ].join("\n"),
+);
+
+console.info(`Wrote ${domains.length} domains to ${OUTPUT}`);
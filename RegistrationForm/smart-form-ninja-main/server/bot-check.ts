@@ -0,0 +1,60 @@
+import { config } from "./config";
+import { clientIp, type RouteContext } from "./http";
+import { readSignedToken, signToken } from "./signed-token";
+import { normalizeEmail, store } from "./store";
+import { detectBot, type BotReason } from "../src/lib/bot-signals";
+
+const MAX_RECORDED_SUBMISSIONS = 1000;
+
+interface FormStartPayload extends Record<string, unknown> {
+  issuedAt: number;
+  exp: number;
+}
+
+/** Stamps the moment a sign-up form appeared, for the form to send back with its submission. */
+export const issueFormToken = () => {
+  const issuedAt = Date.now();
+  const exp = issuedAt + config.botCheck.formTokenTtlMs;
+  return { formToken: signToken("form-start", { issuedAt, exp } satisfies FormStartPayload) };
+};
+
+/** Milliseconds since the form behind `token` appeared, or `null` when the token is missing, forged or expired. */
+const fillTimeOf = (token: unknown) => {
+  if (typeof token !== "string") return null;
+  const payload = readSignedToken<FormStartPayload>("form-start", token);
+  const now = Date.now();
+  if (!payload || typeof payload.issuedAt !== "number" || typeof payload.exp !== "number" || payload.exp <= now) {
+    return null;
+  }
+  return now - payload.issuedAt;
+};
+
+/**
+ * Checks the honeypot sent with a sign-up submission, and the fill time
+ * measured from its form token. Returns
+ * `null` for submissions that look human. Otherwise records the reason and
+ * says whether the caller should discard the submission (answering as if it
+ * succeeded, so the script learns nothing) or go ahead and flag the account.
+ * Missing signals are only ever flagged: a person whose form token failed to
+ * load or expired must not be told a code is on its way when none is.
+ */
+export const screenSubmission = (ctx: RouteContext, email: string): { reason: BotReason; discard: boolean } | null => {
+  const { honeypot, formToken } = (ctx.body.signals ?? {}) as Record<string, unknown>;
+  const reason = detectBot(honeypot, fillTimeOf(formToken), config.botCheck.minFillTimeMs);
+  if (!reason) return null;
+
+  const action = reason === "signals_missing" ? "flag" : config.botCheck.action;
+  const route = ctx.url.pathname;
+  store.botSubmissions.unshift({
+    route,
+    email: normalizeEmail(email),
+    ip: clientIp(ctx.req),
+    reason,
+    action,
+    at: Date.now(),
+  });
+  store.botSubmissions.length = Math.min(store.botSubmissions.length, MAX_RECORDED_SUBMISSIONS);
+  console.warn(`[bot-check] ${action === "discard" ? "Discarded" : "Flagged"} ${route} for ${email}: ${reason}`);
+
+  return { reason, discard: action === "discard" };
+};
@@ -0,0 +1,115 @@
+import { randomBytes } from "node:crypto";
+import { MIN_FILL_TIME_MS } from "../src/lib/bot-signals";
+import { emailQualityPolicyFrom } from "../src/lib/email-quality";
+import { OTP_LENGTH } from "../src/lib/validation";
+
+const readNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const config = {
+  /** Keys the HMACs over stored codes and tokens. Set it to keep codes valid across restarts. */
+  secret: process.env.REGISTRATION_SECRET || randomBytes(32).toString("hex"),
+  otp: {
+    length: OTP_LENGTH,
+    ttlMs: readNumber("OTP_TTL_MS", 10 * 60 * 1000),
+    maxAttempts: readNumber("OTP_MAX_ATTEMPTS", 5),
+    resendCooldownMs: readNumber("OTP_RESEND_COOLDOWN_MS", 30 * 1000),
+    /** Codes sent to one email within `sendWindowMs`, counting the first one. */
+    maxSends: readNumber("OTP_MAX_SENDS", 5),
+    sendWindowMs: readNumber("OTP_SEND_WINDOW_MS", 60 * 60 * 1000),
+  },
+  /**
+   * Whether step 1 may tell a visitor that an email already has an account.
+   * "reveal" favours usability; "conceal" answers every lookup with "unknown"
+   * so the endpoint cannot be used to enumerate accounts.
+   */
+  emailLookupPolicy: process.env.EMAIL_LOOKUP_POLICY === "conceal" ? ("conceal" as const) : ("reveal" as const),
+  /**
+   * Read from the same variables as the client build so both enforce one
+   * policy. Under Vite, `registrationApi` replaces it with the values Vite
+   * loaded, which include those from .env files.
+   */
+  emailQuality: emailQualityPolicyFrom(process.env),
+  botCheck: {
+    /**
+     * What to do with a submission that trips the honeypot or fill-time check.
+     * "discard" answers as if it succeeded but does nothing; "flag" goes ahead
+     * and marks the account. Both are logged with the reason.
+     */
+    action: process.env.BOT_CHECK_ACTION === "flag" ? ("flag" as const) : ("discard" as const),
+    minFillTimeMs: readNumber("BOT_MIN_FILL_TIME_MS", MIN_FILL_TIME_MS),
+    /** How long a form may stay open and still be submitted with the token it was shown with. */
+    formTokenTtlMs: readNumber("BOT_FORM_TOKEN_TTL_MS", 24 * 60 * 60 * 1000),
+  },
+  pow: {
+    /** Leading zero bits asked of every sign-up; about a second of work in a typical browser. */
+    baseDifficulty: readNumber("POW_BASE_DIFFICULTY", 15),
+    maxDifficulty: readNumber("POW_MAX_DIFFICULTY", 20),
+    /** Each this many solutions accepted within `loadWindowMs` adds a bit, doubling the work. */
+    solutionsPerStep: readNumber("POW_SOLUTIONS_PER_STEP", 30),
+    loadWindowMs: readNumber("POW_LOAD_WINDOW_MS", 60 * 1000),
+    ttlMs: readNumber("POW_TTL_MS", 5 * 60 * 1000),
+  },
+  throttle: {
+    /** Failed guesses allowed before each further failure starts a lockout. */
+    freeAttemptsPerEmail: readNumber("THROTTLE_FREE_ATTEMPTS_PER_EMAIL", 5),
+    freeAttemptsPerIp: readNumber("THROTTLE_FREE_ATTEMPTS_PER_IP", 20),
+    /** Email lookups allowed from one IP address within `lookupWindowMs`; enough for a classroom sharing one. */
+    lookupsPerIp: readNumber("THROTTLE_LOOKUPS_PER_IP", 300),
+    lookupWindowMs: readNumber("THROTTLE_LOOKUP_WINDOW_MS", 60 * 1000),
+    /** The first lockout; each later failure doubles it, up to `maxLockoutMs`. */
+    baseLockoutMs: readNumber("THROTTLE_BASE_LOCKOUT_MS", 30 * 1000),
+    maxLockoutMs: readNumber("THROTTLE_MAX_LOCKOUT_MS", 60 * 60 * 1000),
+    /** Failures are forgotten after this long without another one. */
+    resetAfterMs: readNumber("THROTTLE_RESET_AFTER_MS", 24 * 60 * 60 * 1000),
+    /** Take the client IP from X-Forwarded-For. Only enable behind a proxy that sets it. */
+    trustProxy: process.env.TRUST_PROXY === "true",
+  },
+  csrf: {
+    /** Long enough to finish sign-up at a relaxed pace; the client fetches a new one when it runs out. */
+    tokenTtlMs: readNumber("CSRF_TOKEN_TTL_MS", 60 * 60 * 1000),
+  },
+  registrationTokenTtlMs: readNumber("REGISTRATION_TOKEN_TTL_MS", 30 * 60 * 1000),
+  resetTokenTtlMs: readNumber("RESET_TOKEN_TTL_MS", 15 * 60 * 1000),
+  pwned: {
+    /**
+     * Base URL of a Have I Been Pwned compatible range API, e.g.
+     * https://api.pwnedpasswords.com/range. Unset, the bundled fixture is used.
+     */
+    rangeUrl: process.env.PWNED_RANGE_URL,
+    timeoutMs: readNumber("PWNED_TIMEOUT_MS", 3000),
+  },
+  session: {
+    accessTokenTtlMs: readNumber("ACCESS_TOKEN_TTL_MS", 15 * 60 * 1000),
+    refreshTokenTtlMs: readNumber("REFRESH_TOKEN_TTL_MS", 30 * 24 * 60 * 60 * 1000),
+    /**
+     * How long a rotated refresh token is still honoured, so that tabs racing
+     * to refresh on reload are not mistaken for token theft.
+     */
+    reuseGraceMs: readNumber("REFRESH_REUSE_GRACE_MS", 10 * 1000),
+    secureCookies: process.env.COOKIE_SECURE === "true",
+  },
+  webauthn: {
+    rpName: "Classroom",
+    /** Defaults to the hostname the request was made to. */
+    rpId: process.env.WEBAUTHN_RP_ID,
+    challengeTtlMs: readNumber("WEBAUTHN_CHALLENGE_TTL_MS", 5 * 60 * 1000),
+  },
+  mfa: {
+    issuer: "Classroom",
+    enrollmentTtlMs: readNumber("MFA_ENROLLMENT_TTL_MS", 10 * 60 * 1000),
+    challengeTtlMs: readNumber("MFA_CHALLENGE_TTL_MS", 5 * 60 * 1000),
+    maxAttempts: readNumber("MFA_MAX_ATTEMPTS", 5),
+    recoveryCodeCount: readNumber("MFA_RECOVERY_CODE_COUNT", 10),
+  },
+  oauth: {
+    /**
+     * Providers without client credentials fall back to the local mock identity
+     * provider when enabled. Opt-in only: it vouches for any email typed into it.
+     */
+    mockIdp: process.env.OAUTH_MOCK_IDP === "true",
+    pendingTtlMs: readNumber("OAUTH_PENDING_TTL_MS", 10 * 60 * 1000),
+  },
+};
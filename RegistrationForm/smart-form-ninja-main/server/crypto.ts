@@ -0,0 +1,33 @@
+import { createHmac, randomBytes, randomInt, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { config } from "./config";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export const hmac = (value: string) => createHmac("sha256", config.secret).update(value).digest("hex");
+
+export const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const randomToken = (bytes = 32) => randomBytes(bytes).toString("base64url");
+
+export const randomDigits = (length: number) =>
+  Array.from({ length }, () => randomInt(0, 10).toString()).join("");
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const candidate = await scryptAsync(password, Buffer.from(salt, "hex"), KEY_LENGTH);
+  return safeEqual(candidate.toString("hex"), hash);
+};
@@ -0,0 +1,67 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { config } from "./config";
+import { hmac, randomToken, safeEqual } from "./crypto";
+import { API_PREFIX, HttpError, parseCookies, setCookie } from "./http";
+import { readSignedToken, signToken } from "./signed-token";
+
+const CSRF_COOKIE = "rf_csrf";
+export const CSRF_HEADER = "x-csrf-token";
+
+// Everything a signed-in page submits. OAuth callbacks and the mock identity
+// provider are posted to by other sites by design, and rely on their own state checks.
+const PROTECTED_PREFIXES = ["/registration", "/auth", "/password-reset", "/mfa"].map((path) => API_PREFIX + path);
+const UNSAFE_METHODS = new Set(["POST", "PUT", "DELETE"]);
+
+interface CsrfPayload extends Record<string, unknown> {
+  /** HMAC of the browser's CSRF cookie, binding the token to it. */
+  binding: string;
+  exp: number;
+}
+
+const bindingOf = (secret: string) => hmac(`csrf:${secret}`);
+
+export const csrfInvalid = () =>
+  new HttpError(403, "csrf_invalid", "This request's security token isn't valid. Please reload the page.");
+
+/**
+ * Signed double-submit token: the browser keeps a random secret in an HttpOnly
+ * cookie, and requests carry a header token bound to that secret. Another
+ * site can make the browser send the cookie but cannot read or forge the token.
+ */
+export const issueCsrfToken = (req: IncomingMessage, res: ServerResponse) => {
+  let secret = parseCookies(req)[CSRF_COOKIE];
+  if (!secret) {
+    secret = randomToken();
+    setCookie(res, CSRF_COOKIE, secret, {
+      path: API_PREFIX,
+      httpOnly: true,
+      secure: config.session.secureCookies,
+      sameSite: "Strict",
+    });
+  }
+  const payload: CsrfPayload = { binding: bindingOf(secret), exp: Date.now() + config.csrf.tokenTtlMs };
+  const csrfToken = signToken("csrf", payload);
+  return { csrfToken, expiresIn: Math.floor(config.csrf.tokenTtlMs / 1000) };
+};
+
+/** The reason to refuse `req`, or `null` when it is safe or carries a valid token for this browser. */
+export const checkCsrf = (req: IncomingMessage): HttpError | null => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  if (!UNSAFE_METHODS.has(req.method ?? "") || !PROTECTED_PREFIXES.some((prefix) => path.startsWith(prefix))) {
+    return null;
+  }
+
+  const header = req.headers[CSRF_HEADER];
+  const secret = parseCookies(req)[CSRF_COOKIE];
+  if (typeof header !== "string" || !header || !secret) {
+    return new HttpError(403, "csrf_missing", "This request is missing its security token. Please reload the page.");
+  }
+  const payload = readSignedToken<CsrfPayload>("csrf", header);
+  if (!payload || typeof payload.binding !== "string" || !safeEqual(payload.binding, bindingOf(secret))) {
+    return csrfInvalid();
+  }
+  if (typeof payload.exp !== "number" || payload.exp <= Date.now()) {
+    return new HttpError(403, "csrf_expired", "Your security token expired. Please try again.");
+  }
+  return null;
+};
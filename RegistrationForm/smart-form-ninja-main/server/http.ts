@@ -0,0 +1,253 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ZodType } from "zod";
+import { config } from "./config";
+
+export const API_PREFIX = "/api";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  params: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * A route handler either writes to `res` itself or returns a value that is
+ * serialised as the JSON response body.
+ */
+export type RouteHandler = (ctx: RouteContext) => unknown | Promise<unknown>;
+
+type Method = "GET" | "POST" | "PUT" | "DELETE";
+
+interface Route {
+  method: Method;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+export interface CookieOptions {
+  maxAgeMs?: number;
+  path?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+export type NextFunction = (err?: unknown) => void;
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, err: HttpError) => {
+  if (typeof err.details.retryAfter === "number") res.setHeader("Retry-After", String(err.details.retryAfter));
+  sendJson(res, err.status, { error: err.code, message: err.message, ...err.details });
+};
+
+export const redirect = (res: ServerResponse, location: string) => {
+  res.statusCode = 302;
+  res.setHeader("Location", location);
+  res.setHeader("Cache-Control", "no-store");
+  res.end();
+};
+
+export const sendHtml = (res: ServerResponse, status: number, html: string) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(html);
+};
+
+export const sendText = (res: ServerResponse, status: number, text: string) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(text);
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/** The externally visible origin of the request, for building absolute redirect URIs. */
+export const originOf = (req: IncomingMessage) => {
+  const forwarded = req.headers["x-forwarded-proto"];
+  const protocol = typeof forwarded === "string" ? forwarded.split(",")[0] : "http";
+  return `${protocol}://${req.headers.host ?? "localhost"}`;
+};
+
+/** The address the request came from, or the first X-Forwarded-For hop when the proxy is trusted. */
+export const clientIp = (req: IncomingMessage) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (config.throttle.trustProxy && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+export const parseCookies = (req: IncomingMessage): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index < 0) continue;
+    cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return cookies;
+};
+
+export const setCookie = (res: ServerResponse, name: string, value: string, options: CookieOptions = {}) => {
+  const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path ?? "/"}`];
+  if (options.maxAgeMs !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAgeMs / 1000)}`);
+  if (options.httpOnly) parts.push("HttpOnly");
+  if (options.secure) parts.push("Secure");
+  parts.push(`SameSite=${options.sameSite ?? "Lax"}`);
+
+  const existing = res.getHeader("Set-Cookie");
+  const cookies = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+  res.setHeader("Set-Cookie", [...cookies, parts.join("; ")]);
+};
+
+const readBody = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    if (req.method === "GET" || req.method === "HEAD") {
+      resolve({});
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "payload_too_large", "Request body is too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw) {
+        resolve({});
+        return;
+      }
+      if (req.headers["content-type"]?.startsWith("application/x-www-form-urlencoded")) {
+        resolve(Object.fromEntries(new URLSearchParams(raw)));
+        return;
+      }
+      try {
+        const parsed = JSON.parse(raw);
+        resolve(parsed && typeof parsed === "object" ? parsed : {});
+      } catch {
+        reject(new HttpError(400, "invalid_json", "Request body must be valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const compile = (path: string) => {
+  const keys: string[] = [];
+  const source = path.replace(/:([a-zA-Z]+)/g, (_, key: string) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  return { pattern: new RegExp(`^${source}/?$`), keys };
+};
+
+export const createRouter = (prefix = "") => {
+  const routes: Route[] = [];
+
+  const add = (method: Method) => (path: string, handler: RouteHandler) => {
+    routes.push({ method, handler, ...compile(prefix + path) });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, next: NextFunction) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    let pathMatched = false;
+
+    for (const route of routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== req.method) continue;
+
+      try {
+        const params: Record<string, string> = {};
+        route.keys.forEach((key, index) => {
+          params[key] = decodeURIComponent(match[index + 1]);
+        });
+        const body = await readBody(req);
+        const result = await route.handler({ req, res, url, params, body });
+        if (!res.writableEnded) {
+          sendJson(res, 200, result ?? {});
+        }
+      } catch (err) {
+        if (err instanceof HttpError) {
+          sendError(res, err);
+        } else if (err instanceof URIError) {
+          sendError(res, new HttpError(400, "invalid_request", "The request URL is malformed"));
+        } else {
+          console.error("[api] Unhandled error:", err);
+          sendJson(res, 500, { error: "internal_error", message: "Something went wrong. Please try again." });
+        }
+      }
+      return;
+    }
+
+    if (pathMatched) {
+      sendJson(res, 405, { error: "method_not_allowed", message: "Method not allowed" });
+      return;
+    }
+    next();
+  };
+
+  return { get: add("GET"), post: add("POST"), put: add("PUT"), delete: add("DELETE"), handle };
+};
+
+export type Router = ReturnType<typeof createRouter>;
+
+export const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== "string" || !value) {
+    throw new HttpError(400, "invalid_request", `"${field}" is required`);
+  }
+  return value;
+};
+
+/** Turns a message from one of the shared `validate*` helpers into a 400 response. */
+export const assertValid = (error: string | undefined) => {
+  if (error) throw new HttpError(400, "validation_error", error);
+};
+
+/**
+ * Validates a request body with one of the shared zod schemas. The first issue
+ * becomes the message; every failing field is listed under `fields`.
+ */
+export const parseBody = <T>(schema: ZodType<T>, body: Record<string, unknown>): T => {
+  const result = schema.safeParse(body);
+  if (result.success) return result.data;
+
+  const [first] = result.error.issues;
+  const fields = Object.fromEntries(result.error.issues.map((issue) => [issue.path.join("."), issue.message]));
+  if (first.code === "invalid_type") {
+    throw new HttpError(400, "invalid_request", `"${first.path.join(".")}" is required`, { fields });
+  }
+  throw new HttpError(400, "validation_error", first.message, { fields });
+};
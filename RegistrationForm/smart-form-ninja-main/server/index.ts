@@ -0,0 +1,68 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import type { EmailQualityPolicy } from "../src/lib/email-quality";
+import { config } from "./config";
+import { checkCsrf, csrfInvalid } from "./csrf";
+import { API_PREFIX, createRouter, HttpError, sendError, type NextFunction } from "./http";
+import { registerMockIdpRoutes } from "./oauth/mock-idp";
+import { registerAuthRoutes } from "./routes/auth";
+import { registerCsrfRoutes } from "./routes/csrf";
+import { registerMfaRoutes } from "./routes/mfa";
+import { registerOAuthRoutes } from "./routes/oauth";
+import { registerPasskeyRoutes } from "./routes/passkeys";
+import { registerPasswordResetRoutes } from "./routes/password-reset";
+import { registerPwnedRoutes } from "./routes/pwned";
+import { registerRegistrationRoutes } from "./routes/registration";
+
+export { API_PREFIX };
+
+/** Connect-style middleware serving the registration API under `/api`. */
+export const createApiMiddleware = () => {
+  const router = createRouter(API_PREFIX);
+  registerCsrfRoutes(router);
+  registerRegistrationRoutes(router);
+  registerAuthRoutes(router);
+  registerPasswordResetRoutes(router);
+  registerOAuthRoutes(router);
+  registerPasskeyRoutes(router);
+  registerMfaRoutes(router);
+  registerPwnedRoutes(router);
+  if (config.oauth.mockIdp) registerMockIdpRoutes(router);
+
+  return (req: IncomingMessage, res: ServerResponse, next: NextFunction) => {
+    let csrfError: HttpError | null;
+    try {
+      csrfError = checkCsrf(req);
+    } catch (err) {
+      // A token this check can't make sense of is refused, never left to crash the server.
+      console.error("[csrf] Check failed:", err);
+      csrfError = csrfInvalid();
+    }
+    if (csrfError) {
+      sendError(res, csrfError);
+      return;
+    }
+    // Errors a route doesn't handle itself go to the host server, never to an unhandled rejection.
+    router.handle(req, res, next).catch(next);
+  };
+};
+
+export interface RegistrationApiOptions {
+  /** The email policy the client was built with, so the API enforces the same one. */
+  emailQuality?: EmailQualityPolicy;
+}
+
+/** Mounts the registration API on the Vite dev and preview servers. */
+export const registrationApi = ({ emailQuality }: RegistrationApiOptions = {}): Plugin => {
+  if (emailQuality) config.emailQuality = emailQuality;
+  const middleware = createApiMiddleware();
+  return {
+    name: "registration-api",
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+};
@@ -0,0 +1,7 @@
+/**
+ * Development mailer: there is no SMTP relay in the local setup, so messages
+ * are written to the server log where the developer can pick up the code.
+ */
+export const sendMail = async (to: string, subject: string, text: string) => {
+  console.info(`\n[mailer] To: ${to}\n[mailer] Subject: ${subject}\n${text}\n`);
+};
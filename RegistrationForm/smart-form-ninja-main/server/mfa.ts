@@ -0,0 +1,79 @@
+import { randomBytes } from "node:crypto";
+import { config } from "./config";
+import { hmac, randomToken } from "./crypto";
+import { HttpError } from "./http";
+import { findUserByEmail, store, type User } from "./store";
+import { matchTotp } from "./totp";
+
+/** Recovery codes are shown as `xxxxx-xxxxx`; case and separators are ignored when one is entered. */
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const generateRecoveryCodes = () =>
+  Array.from({ length: config.mfa.recoveryCodeCount }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+export const hashRecoveryCode = (code: string) => hmac(`recovery:${normalizeRecoveryCode(code)}`);
+
+/** Issues the token a password sign-in trades, together with a second factor, for a session. */
+export const issueMfaChallenge = (email: string) => {
+  const token = randomToken();
+  store.mfaChallenges.set(hmac(token), {
+    email,
+    expiresAt: Date.now() + config.mfa.challengeTtlMs,
+    attempts: 0,
+  });
+  return token;
+};
+
+/** The account a pending second-factor challenge belongs to, if the token is still known. */
+export const mfaChallengeEmail = (token: string) => store.mfaChallenges.get(hmac(token))?.email;
+
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
+const acceptSecondFactor = (user: User, factor: SecondFactor) => {
+  const totp = user.totp;
+  if (!totp) return false;
+
+  if ("code" in factor) {
+    const step = matchTotp(totp.secret, factor.code, totp.lastUsedStep);
+    if (step === null) return false;
+    totp.lastUsedStep = step;
+    return true;
+  }
+
+  const index = totp.recoveryCodeHashes.indexOf(hashRecoveryCode(factor.recoveryCode));
+  if (index < 0) return false;
+  totp.recoveryCodeHashes.splice(index, 1);
+  return true;
+};
+
+/** Resolves the user behind `token` once `factor` checks out, consuming the challenge. */
+export const verifyMfaChallenge = (token: string, factor: SecondFactor) => {
+  const key = hmac(token);
+  const challenge = store.mfaChallenges.get(key);
+  const user = challenge && findUserByEmail(challenge.email);
+  if (!challenge || !user || challenge.expiresAt < Date.now()) {
+    store.mfaChallenges.delete(key);
+    throw new HttpError(401, "mfa_expired", "Your sign-in attempt expired. Please log in again.");
+  }
+
+  if (!acceptSecondFactor(user, factor)) {
+    challenge.attempts += 1;
+    const attemptsRemaining = config.mfa.maxAttempts - challenge.attempts;
+    if (attemptsRemaining <= 0) {
+      store.mfaChallenges.delete(key);
+      throw new HttpError(401, "mfa_attempts_exceeded", "Too many incorrect codes. Please log in again.");
+    }
+    throw new HttpError(
+      400,
+      "mfa_invalid",
+      "recoveryCode" in factor ? "That recovery code isn't valid" : "Incorrect code. Please try again.",
+      { attemptsRemaining },
+    );
+  }
+
+  store.mfaChallenges.delete(key);
+  return user;
+};
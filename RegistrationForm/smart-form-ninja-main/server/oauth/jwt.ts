@@ -0,0 +1,82 @@
+import { createPublicKey, sign, verify, type JsonWebKey, type KeyObject } from "node:crypto";
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  [claim: string]: unknown;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+const encodeSegment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const decodeSegment = <T>(segment: string): T => JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+export const signJwt = (claims: JwtClaims, privateKey: KeyObject, kid: string) => {
+  const input = `${encodeSegment({ alg: "RS256", typ: "JWT", kid })}.${encodeSegment(claims)}`;
+  return `${input}.${sign("RSA-SHA256", Buffer.from(input), privateKey).toString("base64url")}`;
+};
+
+const fetchJwks = async (jwksUri: string, force: boolean) => {
+  const cached = jwksCache.get(jwksUri);
+  if (cached && !force && Date.now() - cached.fetchedAt < JWKS_CACHE_MS) return cached.keys;
+
+  const response = await fetch(jwksUri);
+  if (!response.ok) throw new Error(`Failed to fetch JWKS from ${jwksUri}: ${response.status}`);
+  const { keys } = (await response.json()) as { keys: Jwk[] };
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return keys;
+};
+
+export interface VerifyOptions {
+  jwksUri: string;
+  issuer: string;
+  audience: string;
+  nonce: string;
+}
+
+/** Verifies an RS256 ID token against the issuer's JWKS and the standard OIDC claim checks. */
+export const verifyIdToken = async (token: string, options: VerifyOptions): Promise<JwtClaims> => {
+  const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+  if (!headerSegment || !payloadSegment || !signatureSegment) throw new Error("Malformed ID token");
+
+  const header = decodeSegment<{ alg?: string; kid?: string }>(headerSegment);
+  if (header.alg !== "RS256") throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+
+  // Refetch once on an unknown kid in case the issuer rotated its keys.
+  let jwk = (await fetchJwks(options.jwksUri, false)).find((key) => key.kid === header.kid);
+  jwk ??= (await fetchJwks(options.jwksUri, true)).find((key) => key.kid === header.kid);
+  if (!jwk) throw new Error("ID token signed with an unknown key");
+
+  const valid = verify(
+    "RSA-SHA256",
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    createPublicKey({ key: jwk, format: "jwk" }),
+    Buffer.from(signatureSegment, "base64url"),
+  );
+  if (!valid) throw new Error("ID token signature is invalid");
+
+  const claims = decodeSegment<JwtClaims>(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== options.issuer) throw new Error("ID token issuer mismatch");
+  if (!audiences.includes(options.audience)) throw new Error("ID token audience mismatch");
+  if (!claims.exp || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error("ID token has expired");
+  if (claims.nonce !== options.nonce) throw new Error("ID token nonce mismatch");
+
+  return claims;
+};
@@ -0,0 +1,203 @@
+import { createHash, generateKeyPairSync, type KeyObject } from "node:crypto";
+import { randomToken, safeEqual } from "../crypto";
+import { API_PREFIX, escapeHtml, HttpError, originOf, redirect, requireString, sendHtml, type Router } from "../http";
+import { signJwt } from "./jwt";
+
+/**
+ * A tiny OpenID Connect provider for offline development. It implements just
+ * enough of the authorization-code + PKCE flow for every social button to make
+ * a full redirect round trip without network access or real credentials.
+ */
+
+export const MOCK_IDP_PATH = `${API_PREFIX}/mock-idp`;
+export const MOCK_CLIENT_SECRET = "mock-client-secret";
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+const keyId = randomToken(8);
+let signingKeys: { privateKey: KeyObject; publicKey: KeyObject } | undefined;
+
+/** Made on first use, so servers that never enable the mock don't pay for the key generation. */
+const keys = () => (signingKeys ??= generateKeyPairSync("rsa", { modulusLength: 2048 }));
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  scope: string;
+  email: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, IssuedCode>();
+const accessTokens = new Map<string, string>();
+
+const subjectFor = (email: string) => createHash("sha256").update(email).digest("hex").slice(0, 24);
+
+const assertClient = (clientId: string) => {
+  if (!clientId.startsWith("mock-")) {
+    throw new HttpError(400, "invalid_client", "Unknown client");
+  }
+};
+
+const AUTHORIZE_FIELDS = [
+  "client_id",
+  "redirect_uri",
+  "state",
+  "nonce",
+  "scope",
+  "code_challenge",
+  "code_challenge_method",
+  "response_mode",
+];
+
+const renderAuthorizePage = (params: URLSearchParams) => {
+  const provider = params.get("client_id")?.replace(/^mock-/, "") ?? "provider";
+  const hidden = AUTHORIZE_FIELDS.map(
+    (field) => `<input type="hidden" name="${field}" value="${escapeHtml(params.get(field) ?? "")}" />`,
+  ).join("");
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Mock ${escapeHtml(provider)} sign-in</title>
+    <style>
+      body { font-family: system-ui, sans-serif; display: grid; place-items: center; min-height: 100vh; margin: 0; background: #f4f4f8; }
+      form { background: #fff; padding: 2rem; border-radius: 12px; box-shadow: 0 4px 24px rgba(0,0,0,.08); width: 320px; }
+      input[type=email] { width: 100%; padding: .5rem; margin: .5rem 0 1rem; box-sizing: border-box; }
+      button { padding: .6rem 1rem; margin-right: .5rem; cursor: pointer; }
+    </style>
+  </head>
+  <body>
+    <form method="post">
+      <h1>Mock ${escapeHtml(provider)}</h1>
+      <p>Development identity provider. Choose the email to sign in as.</p>
+      ${hidden}
+      <label for="email">Email</label>
+      <input id="email" name="email" type="email" value="learner@example.com" required />
+      <button type="submit" name="decision" value="allow">Continue</button>
+      <button type="submit" name="decision" value="deny">Cancel</button>
+    </form>
+  </body>
+</html>`;
+};
+
+const renderFormPost = (redirectUri: string, fields: Record<string, string>) => `<!doctype html>
+<html lang="en">
+  <body onload="document.forms[0].submit()">
+    <form method="post" action="${escapeHtml(redirectUri)}">
+      ${Object.entries(fields)
+        .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}" />`)
+        .join("")}
+      <noscript><button type="submit">Continue</button></noscript>
+    </form>
+  </body>
+</html>`;
+
+export const registerMockIdpRoutes = (router: Router) => {
+  const path = MOCK_IDP_PATH.slice(API_PREFIX.length);
+
+  router.get(`${path}/authorize`, ({ url, res }) => {
+    assertClient(url.searchParams.get("client_id") ?? "");
+    if (!url.searchParams.get("redirect_uri") || url.searchParams.get("code_challenge_method") !== "S256") {
+      throw new HttpError(400, "invalid_request", "redirect_uri and an S256 code_challenge are required");
+    }
+    sendHtml(res, 200, renderAuthorizePage(url.searchParams));
+  });
+
+  router.post(`${path}/authorize`, ({ body, res }) => {
+    const clientId = requireString(body, "client_id");
+    const redirectUri = requireString(body, "redirect_uri");
+    const state = typeof body.state === "string" ? body.state : "";
+    assertClient(clientId);
+
+    const respond = (fields: Record<string, string>) => {
+      if (body.response_mode === "form_post") {
+        sendHtml(res, 200, renderFormPost(redirectUri, fields));
+        return;
+      }
+      const target = new URL(redirectUri);
+      for (const [key, value] of Object.entries(fields)) target.searchParams.set(key, value);
+      redirect(res, target.toString());
+    };
+
+    if (body.decision !== "allow") {
+      respond({ error: "access_denied", state });
+      return;
+    }
+
+    const code = randomToken();
+    codes.set(code, {
+      clientId,
+      redirectUri,
+      codeChallenge: requireString(body, "code_challenge"),
+      nonce: typeof body.nonce === "string" ? body.nonce : "",
+      scope: typeof body.scope === "string" ? body.scope : "",
+      email: requireString(body, "email").trim().toLowerCase(),
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+    respond({ code, state });
+  });
+
+  router.post(`${path}/token`, ({ body, req }) => {
+    const code = requireString(body, "code");
+    const issued = codes.get(code);
+    codes.delete(code);
+
+    if (body.grant_type !== "authorization_code" || !issued || issued.expiresAt < Date.now()) {
+      throw new HttpError(400, "invalid_grant", "The authorization code is invalid or has expired");
+    }
+    if (body.client_id !== issued.clientId || body.client_secret !== MOCK_CLIENT_SECRET) {
+      throw new HttpError(401, "invalid_client", "Client authentication failed");
+    }
+    if (body.redirect_uri !== issued.redirectUri) {
+      throw new HttpError(400, "invalid_grant", "redirect_uri does not match the authorization request");
+    }
+    const verifier = requireString(body, "code_verifier");
+    const challenge = createHash("sha256").update(verifier).digest("base64url");
+    if (!safeEqual(challenge, issued.codeChallenge)) {
+      throw new HttpError(400, "invalid_grant", "PKCE verification failed");
+    }
+
+    const accessToken = randomToken();
+    accessTokens.set(accessToken, issued.email);
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: TOKEN_TTL_SECONDS,
+      ...(issued.scope.split(" ").includes("openid")
+        ? {
+            id_token: signJwt(
+              {
+                iss: `${originOf(req)}${MOCK_IDP_PATH}`,
+                sub: subjectFor(issued.email),
+                aud: issued.clientId,
+                iat: now,
+                exp: now + TOKEN_TTL_SECONDS,
+                nonce: issued.nonce,
+                email: issued.email,
+                email_verified: true,
+              },
+              keys().privateKey,
+              keyId,
+            ),
+          }
+        : {}),
+    };
+  });
+
+  router.get(`${path}/userinfo`, ({ req }) => {
+    const email = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, "") ?? "");
+    if (!email) throw new HttpError(401, "invalid_token", "Unknown access token");
+    return { id: subjectFor(email), email };
+  });
+
+  router.get(`${path}/jwks`, () => ({
+    keys: [{ ...keys().publicKey.export({ format: "jwk" }), kid: keyId, use: "sig", alg: "RS256" }],
+  }));
+};
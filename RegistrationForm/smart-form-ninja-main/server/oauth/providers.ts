@@ -0,0 +1,190 @@
+import { config } from "../config";
+import { verifyIdToken } from "./jwt";
+import { MOCK_CLIENT_SECRET, MOCK_IDP_PATH } from "./mock-idp";
+
+export const PROVIDER_IDS = ["apple", "facebook", "google"] as const;
+
+export type ProviderId = (typeof PROVIDER_IDS)[number];
+
+export interface OAuthIdentity {
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+}
+
+interface ProviderSettings {
+  id: ProviderId;
+  name: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  /** Extra query parameters for the authorization request, e.g. Apple's `response_mode`. */
+  authorizationParams?: Record<string, string>;
+  /** Present for OpenID Connect providers: identity comes from a verified ID token. */
+  oidc?: { issuer: string; jwksUri: string };
+  /** Used by plain OAuth 2.0 providers to look the user up with the access token. */
+  userinfoEndpoint?: string;
+}
+
+export interface AuthorizationRequest {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface CodeExchange {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+export interface OAuthProvider {
+  id: ProviderId;
+  name: string;
+  mock: boolean;
+  authorizationUrl: (request: AuthorizationRequest) => string;
+  exchangeCode: (exchange: CodeExchange) => Promise<OAuthIdentity>;
+}
+
+type ProviderDefaults = Omit<ProviderSettings, "clientId" | "clientSecret">;
+
+const DEFAULTS: Record<ProviderId, ProviderDefaults> = {
+  apple: {
+    id: "apple",
+    name: "Apple",
+    authorizationEndpoint: "https://appleid.apple.com/auth/authorize",
+    tokenEndpoint: "https://appleid.apple.com/auth/token",
+    scopes: ["openid", "email"],
+    // Apple only releases the email scope with form_post, which makes the callback a POST.
+    authorizationParams: { response_mode: "form_post" },
+    oidc: { issuer: "https://appleid.apple.com", jwksUri: "https://appleid.apple.com/auth/keys" },
+  },
+  facebook: {
+    id: "facebook",
+    name: "Facebook",
+    authorizationEndpoint: "https://www.facebook.com/v19.0/dialog/oauth",
+    tokenEndpoint: "https://graph.facebook.com/v19.0/oauth/access_token",
+    scopes: ["email"],
+    userinfoEndpoint: "https://graph.facebook.com/me?fields=id,email",
+  },
+  google: {
+    id: "google",
+    name: "Google",
+    authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenEndpoint: "https://oauth2.googleapis.com/token",
+    scopes: ["openid", "email"],
+    oidc: { issuer: "https://accounts.google.com", jwksUri: "https://www.googleapis.com/oauth2/v3/certs" },
+  },
+};
+
+const postForm = async <T>(url: string, params: Record<string, string>): Promise<T> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams(params),
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Token request to ${url} failed: ${response.status} ${JSON.stringify(payload)}`);
+  }
+  return payload as T;
+};
+
+const createProvider = (settings: ProviderSettings, mock: boolean): OAuthProvider => ({
+  id: settings.id,
+  name: settings.name,
+  mock,
+
+  authorizationUrl: ({ redirectUri, state, nonce, codeChallenge }) => {
+    const url = new URL(settings.authorizationEndpoint);
+    const params = {
+      response_type: "code",
+      client_id: settings.clientId,
+      redirect_uri: redirectUri,
+      scope: settings.scopes.join(" "),
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      ...(settings.oidc ? { nonce } : {}),
+      ...settings.authorizationParams,
+    };
+    for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+    return url.toString();
+  },
+
+  exchangeCode: async ({ code, redirectUri, codeVerifier, nonce }) => {
+    const tokens = await postForm<{ access_token?: string; id_token?: string }>(settings.tokenEndpoint, {
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: settings.clientId,
+      client_secret: settings.clientSecret,
+      code_verifier: codeVerifier,
+    });
+
+    if (settings.oidc) {
+      if (!tokens.id_token) throw new Error(`${settings.name} did not return an ID token`);
+      const claims = await verifyIdToken(tokens.id_token, {
+        jwksUri: settings.oidc.jwksUri,
+        issuer: settings.oidc.issuer,
+        audience: settings.clientId,
+        nonce,
+      });
+      if (!claims.sub || !claims.email) throw new Error(`${settings.name} did not share an email address`);
+      return {
+        subject: claims.sub,
+        email: claims.email,
+        emailVerified: claims.email_verified === true || claims.email_verified === "true",
+      };
+    }
+
+    if (!tokens.access_token || !settings.userinfoEndpoint) {
+      throw new Error(`${settings.name} did not return an access token`);
+    }
+    const response = await fetch(settings.userinfoEndpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    const profile = (await response.json()) as { id?: string; email?: string };
+    if (!response.ok || !profile.id || !profile.email) {
+      throw new Error(`${settings.name} did not share an email address`);
+    }
+    // Facebook only exposes confirmed addresses through the Graph API.
+    return { subject: profile.id, email: profile.email, emailVerified: true };
+  },
+});
+
+/**
+ * Resolves a provider for this request. Real credentials come from
+ * `OAUTH_<PROVIDER>_CLIENT_ID` / `OAUTH_<PROVIDER>_CLIENT_SECRET`; without them
+ * the provider is served by the mock identity provider when that is enabled.
+ */
+export const resolveProvider = (id: string, origin: string): OAuthProvider | null => {
+  if (!(PROVIDER_IDS as readonly string[]).includes(id)) return null;
+  const defaults = DEFAULTS[id as ProviderId];
+  const envPrefix = `OAUTH_${id.toUpperCase()}`;
+  const clientId = process.env[`${envPrefix}_CLIENT_ID`];
+  const clientSecret = process.env[`${envPrefix}_CLIENT_SECRET`];
+
+  if (clientId && clientSecret) {
+    return createProvider({ ...defaults, clientId, clientSecret }, false);
+  }
+  if (!config.oauth.mockIdp) return null;
+
+  const issuer = `${origin}${MOCK_IDP_PATH}`;
+  return createProvider(
+    {
+      ...defaults,
+      clientId: `mock-${id}`,
+      clientSecret: MOCK_CLIENT_SECRET,
+      authorizationEndpoint: `${issuer}/authorize`,
+      tokenEndpoint: `${issuer}/token`,
+      userinfoEndpoint: defaults.userinfoEndpoint && `${issuer}/userinfo`,
+      oidc: defaults.oidc && { issuer, jwksUri: `${issuer}/jwks` },
+    },
+    true,
+  );
+};
@@ -0,0 +1,118 @@
+import { config } from "./config";
+import { hmac, randomDigits, randomToken, safeEqual } from "./crypto";
+import { HttpError } from "./http";
+import { normalizeEmail, store, type OtpPurpose, type OtpRecord } from "./store";
+
+const keyOf = (purpose: OtpPurpose, email: string) => `${purpose}:${email}`;
+
+const hashCode = (purpose: OtpPurpose, email: string, code: string) => hmac(`otp:${purpose}:${email}:${code}`);
+
+export interface OtpStatus {
+  expiresIn: number;
+  resendAvailableIn: number;
+  resendsRemaining: number;
+  attemptsRemaining: number;
+}
+
+const secondsUntil = (timestamp: number) => Math.max(0, Math.ceil((timestamp - Date.now()) / 1000));
+
+const statusOf = (record: OtpRecord): OtpStatus => ({
+  expiresIn: secondsUntil(record.expiresAt),
+  resendAvailableIn: secondsUntil(record.issuedAt + config.otp.resendCooldownMs),
+  resendsRemaining: Math.max(0, config.otp.maxSends - record.sendCount),
+  attemptsRemaining: Math.max(0, config.otp.maxAttempts - record.attempts),
+});
+
+/** The status a freshly issued code would have; lets callers answer without revealing whether one was sent. */
+export const initialOtpStatus = (): OtpStatus => ({
+  expiresIn: secondsUntil(Date.now() + config.otp.ttlMs),
+  resendAvailableIn: secondsUntil(Date.now() + config.otp.resendCooldownMs),
+  resendsRemaining: config.otp.maxSends - 1,
+  attemptsRemaining: config.otp.maxAttempts,
+});
+
+export const hasOtp = (purpose: OtpPurpose, email: string) => store.otps.has(keyOf(purpose, normalizeEmail(email)));
+
+/**
+ * Issues a fresh code for `email`, replacing any outstanding one. Enforces the
+ * resend cooldown and the per-window send cap, which carry over between codes.
+ */
+export const issueOtp = (purpose: OtpPurpose, rawEmail: string) => {
+  const email = normalizeEmail(rawEmail);
+  const now = Date.now();
+  const previous = store.otps.get(keyOf(purpose, email));
+  const inWindow = previous && now - previous.firstSentAt < config.otp.sendWindowMs;
+
+  if (previous && now - previous.issuedAt < config.otp.resendCooldownMs) {
+    const retryAfter = secondsUntil(previous.issuedAt + config.otp.resendCooldownMs);
+    throw new HttpError(429, "otp_resend_cooldown", `Please wait ${retryAfter}s before requesting another code`, {
+      retryAfter,
+    });
+  }
+  if (inWindow && previous.sendCount >= config.otp.maxSends) {
+    const retryAfter = secondsUntil(previous.firstSentAt + config.otp.sendWindowMs);
+    throw new HttpError(429, "otp_resend_limit", "Too many codes requested. Please try again later.", {
+      retryAfter,
+    });
+  }
+
+  const code = randomDigits(config.otp.length);
+  const record: OtpRecord = {
+    purpose,
+    email,
+    codeHash: hashCode(purpose, email, code),
+    linkId: randomToken(16),
+    issuedAt: now,
+    expiresAt: now + config.otp.ttlMs,
+    attempts: 0,
+    sendCount: inWindow ? previous.sendCount + 1 : 1,
+    firstSentAt: inWindow ? previous.firstSentAt : now,
+  };
+  store.otps.set(keyOf(purpose, email), record);
+  return { code, linkId: record.linkId, expiresAt: record.expiresAt, status: statusOf(record) };
+};
+
+/** Consumes the outstanding code for `email`, throwing an `HttpError` when it does not match. */
+export const verifyOtp = (purpose: OtpPurpose, rawEmail: string, code: string) => {
+  const email = normalizeEmail(rawEmail);
+  const record = store.otps.get(keyOf(purpose, email));
+  if (!record) {
+    throw new HttpError(400, "otp_not_found", "No verification code was requested for this email");
+  }
+  if (record.expiresAt <= Date.now()) {
+    throw new HttpError(400, "otp_expired", "This code has expired. Please request a new one.", {
+      ...statusOf(record),
+    });
+  }
+  if (record.attempts >= config.otp.maxAttempts) {
+    throw new HttpError(400, "otp_attempts_exceeded", "Too many incorrect attempts. Please request a new code.", {
+      ...statusOf(record),
+    });
+  }
+  if (!safeEqual(record.codeHash, hashCode(purpose, email, code))) {
+    record.attempts += 1;
+    const status = statusOf(record);
+    throw new HttpError(
+      400,
+      status.attemptsRemaining > 0 ? "otp_invalid" : "otp_attempts_exceeded",
+      status.attemptsRemaining > 0
+        ? "The verification code is incorrect"
+        : "Too many incorrect attempts. Please request a new code.",
+      { ...status },
+    );
+  }
+  store.otps.delete(keyOf(purpose, email));
+};
+
+/** Consumes the outstanding code for `email` through its magic link instead of the digits. */
+export const consumeOtpLink = (purpose: OtpPurpose, rawEmail: string, linkId: string) => {
+  const email = normalizeEmail(rawEmail);
+  const record = store.otps.get(keyOf(purpose, email));
+  if (!record || !safeEqual(record.linkId, linkId)) {
+    throw new HttpError(400, "link_invalid", "This link has already been used or replaced by a newer one");
+  }
+  if (record.expiresAt <= Date.now()) {
+    throw new HttpError(400, "link_expired", "This link has expired. Please request a new code.");
+  }
+  store.otps.delete(keyOf(purpose, email));
+};
@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import { config } from "./config";
+import { randomToken } from "./crypto";
+import { HttpError } from "./http";
+import { readSignedToken, signToken } from "./signed-token";
+import { store } from "./store";
+import { hasLeadingZeroBits, powInput, type PowChallenge } from "../src/lib/proof-of-work";
+
+interface PowPayload extends Record<string, unknown> {
+  salt: string;
+  difficulty: number;
+  exp: number;
+}
+
+/**
+ * When recent solutions were accepted; their number is the load that raises
+ * the difficulty. Issuing a challenge costs nothing, so counting those would
+ * let anyone slow down every real sign-up by requesting them in a loop.
+ */
+const solvedAt: number[] = [];
+
+const currentDifficulty = (now: number) => {
+  while (solvedAt.length && solvedAt[0] <= now - config.pow.loadWindowMs) solvedAt.shift();
+  const extraBits = Math.floor(solvedAt.length / config.pow.solutionsPerStep);
+  return Math.min(config.pow.baseDifficulty + extraBits, config.pow.maxDifficulty);
+};
+
+/**
+ * A fresh puzzle for the sign-up form. The difficulty is fixed into the signed
+ * token, so a solution stays valid if the load changes while it is worked on.
+ */
+export const issuePowChallenge = (): PowChallenge => {
+  const now = Date.now();
+  const difficulty = currentDifficulty(now);
+
+  const salt = randomToken(16);
+  const token = signToken("pow", { salt, difficulty, exp: now + config.pow.ttlMs } satisfies PowPayload);
+  return { token, salt, difficulty, expiresIn: Math.ceil(config.pow.ttlMs / 1000) };
+};
+
+const forgetExpired = (now: number) => {
+  for (const [salt, expiresAt] of store.spentPowChallenges) {
+    if (expiresAt <= now) store.spentPowChallenges.delete(salt);
+  }
+};
+
+/** Accepts a solved challenge once, throwing an `HttpError` when it is missing, wrong, expired or reused. */
+export const assertPowSolved = (solution: unknown) => {
+  const { token, nonce } = (solution ?? {}) as { token?: unknown; nonce?: unknown };
+  if (typeof token !== "string" || typeof nonce !== "number" || !Number.isSafeInteger(nonce) || nonce < 0) {
+    throw new HttpError(400, "pow_required", "Please wait a moment while we check your browser, then try again.");
+  }
+
+  const payload = readSignedToken<PowPayload>("pow", token);
+  if (
+    !payload ||
+    typeof payload.salt !== "string" ||
+    !Number.isSafeInteger(payload.difficulty) ||
+    payload.difficulty < 1 ||
+    typeof payload.exp !== "number"
+  ) {
+    throw new HttpError(400, "pow_invalid", "The browser check failed. Please try again.");
+  }
+  const now = Date.now();
+  forgetExpired(now);
+  if (payload.exp <= now || store.spentPowChallenges.has(payload.salt)) {
+    throw new HttpError(400, "pow_expired", "The browser check expired. Please try again.");
+  }
+
+  const hash = createHash("sha256").update(powInput(payload.salt, nonce)).digest();
+  if (!hasLeadingZeroBits(hash, payload.difficulty)) {
+    throw new HttpError(400, "pow_invalid", "The browser check failed. Please try again.");
+  }
+  store.spentPowChallenges.set(payload.salt, payload.exp);
+  solvedAt.push(now);
+};
@@ -0,0 +1,18 @@
+import { normalizeEmail, type User } from "./store";
+import { activeValues } from "../src/lib/field-rules";
+import { ACCOUNT_FIELD_RULES, type ProfileDetails } from "../src/lib/registration-schemas";
+import type { Role } from "../src/lib/validation";
+
+/**
+ * A profile that passed `profileSchema` or `accountSchema`, as it is stored.
+ * Answers to fields the rules hide are dropped, not stored.
+ */
+export const storedProfile = (details: ProfileDetails): Pick<User, "role" | "age" | "schoolName" | "guardianEmail"> => {
+  const profile = activeValues(ACCOUNT_FIELD_RULES, details);
+  return {
+    role: profile.role as Role,
+    age: profile.age ? Number(profile.age) : undefined,
+    schoolName: profile.schoolName?.trim(),
+    guardianEmail: profile.guardianEmail ? normalizeEmail(profile.guardianEmail) : undefined,
+  };
+};
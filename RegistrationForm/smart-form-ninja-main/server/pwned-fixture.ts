@@ -0,0 +1,48 @@
+/**
+ * Stand-in for the Have I Been Pwned password corpus: commonly breached
+ * passwords with illustrative sighting counts. It deliberately includes
+ * passwords that satisfy the sign-up rules, such as `Password1!`, since those
+ * are what the check exists to catch.
+ */
+export const BREACHED_PASSWORDS: Record<string, number> = {
+  "123456": 42000000,
+  "123456789": 7000000,
+  "12345678": 2900000,
+  password: 9500000,
+  qwerty: 3900000,
+  "111111": 3000000,
+  "1234567890": 2900000,
+  iloveyou: 1600000,
+  abc123: 1200000,
+  letmein: 1000000,
+  monkey: 980000,
+  dragon: 960000,
+  football: 500000,
+  welcome: 450000,
+  admin: 420000,
+  "Password1!": 118000,
+  "Password1@": 21000,
+  "Password123!": 54000,
+  "P@ssw0rd": 93000,
+  "P@ssw0rd1": 25000,
+  "Passw0rd!": 47000,
+  "Qwerty123!": 31000,
+  "Qwerty1!": 12000,
+  "Welcome1!": 29000,
+  "Welcome123!": 14000,
+  "Admin123!": 26000,
+  "Abc12345!": 9000,
+  "Iloveyou1!": 8000,
+  "Letmein1!": 7500,
+  "Football1!": 6200,
+  "Monkey123!": 4100,
+  "Summer2024!": 3800,
+  "Winter2023!": 3100,
+  "Spring2024!": 2200,
+  "Changeme1!": 5400,
+  "password1!": 61000,
+  "password123!": 33000,
+  "qwerty123!": 18000,
+  "12345678!": 15000,
+  "abcd1234!": 4300,
+};
@@ -0,0 +1,81 @@
+import { createHash, randomBytes, randomInt } from "node:crypto";
+import { config } from "./config";
+import { HttpError } from "./http";
+import { BREACHED_PASSWORDS } from "./pwned-fixture";
+import { breachedPasswordMessage } from "../src/lib/validation";
+
+const PREFIX_LENGTH = 5;
+// Padded responses always carry at least this many lines, so their size
+// does not hint at how many real matches a prefix has.
+const MIN_PADDED_LINES = 40;
+
+const sha1 = (value: string) => createHash("sha1").update(value).digest("hex").toUpperCase();
+
+/** Fixture hashes grouped by prefix, in the shape the range endpoint serves them. */
+const rangeIndex = new Map<string, Map<string, number>>();
+for (const [password, count] of Object.entries(BREACHED_PASSWORDS)) {
+  const hash = sha1(password);
+  const prefix = hash.slice(0, PREFIX_LENGTH);
+  if (!rangeIndex.has(prefix)) rangeIndex.set(prefix, new Map());
+  rangeIndex.get(prefix)!.set(hash.slice(PREFIX_LENGTH), count);
+}
+
+export const isHashPrefix = (value: string) => /^[0-9A-F]{5}$/i.test(value);
+
+/**
+ * The body of a Have I Been Pwned range response: `SUFFIX:COUNT` lines for
+ * every known hash starting with `prefix`. With `padding`, random suffixes
+ * with a count of 0 are mixed in, as the real service does.
+ */
+export const rangeResponse = (prefix: string, padding: boolean) => {
+  const lines = [...(rangeIndex.get(prefix.toUpperCase()) ?? [])].map(([suffix, count]) => `${suffix}:${count}`);
+  if (padding) {
+    const target = MIN_PADDED_LINES + randomInt(0, 20);
+    while (lines.length < target) {
+      lines.splice(randomInt(0, lines.length + 1), 0, `${randomBytes(18).toString("hex").slice(0, 35).toUpperCase()}:0`);
+    }
+  }
+  return lines.join("\r\n");
+};
+
+const parseRange = (body: string, suffix: string) => {
+  for (const line of body.split("\n")) {
+    const [candidate, count] = line.trim().split(":");
+    if (candidate?.toUpperCase() === suffix) return Number(count) || 0;
+  }
+  return 0;
+};
+
+/**
+ * How many times `password` appears in the breach corpus, or `null` when the
+ * lookup failed. Uses the configured range API when there is one and the
+ * bundled fixture otherwise; only the hash prefix ever leaves the process.
+ */
+export const breachCount = async (password: string): Promise<number | null> => {
+  const hash = sha1(password);
+  const prefix = hash.slice(0, PREFIX_LENGTH);
+  const suffix = hash.slice(PREFIX_LENGTH);
+
+  if (!config.pwned.rangeUrl) {
+    return parseRange(rangeResponse(prefix, false), suffix);
+  }
+  try {
+    const response = await fetch(`${config.pwned.rangeUrl}/${prefix}`, {
+      headers: { "Add-Padding": "true" },
+      signal: AbortSignal.timeout(config.pwned.timeoutMs),
+    });
+    if (!response.ok) throw new Error(`Range lookup failed with ${response.status}`);
+    return parseRange(await response.text(), suffix);
+  } catch (err) {
+    console.warn("[pwned] Breached-password lookup unavailable:", err instanceof Error ? err.message : err);
+    return null;
+  }
+};
+
+/** Rejects breached passwords. A failed lookup lets the password through rather than blocking sign-up. */
+export const assertNotBreached = async (password: string) => {
+  const count = await breachCount(password);
+  if (count) {
+    throw new HttpError(400, "password_breached", breachedPasswordMessage(count), { breachCount: count });
+  }
+};
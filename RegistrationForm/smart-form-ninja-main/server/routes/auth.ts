@@ -0,0 +1,40 @@
+import { hashPassword, verifyPassword } from "../crypto";
+import { clientIp, HttpError, requireString, type Router } from "../http";
+import { issueMfaChallenge } from "../mfa";
+import { createSession, endSession, requireUser, rotateSession } from "../sessions";
+import { findUserByEmail, toPublicUser } from "../store";
+import { throttled } from "../throttle";
+
+// Compared against when the email is unknown so that both failure paths take
+// the same time and the response does not reveal whether an account exists.
+const dummyPasswordHash = hashPassword("not-a-real-password");
+
+export const registerAuthRoutes = (router: Router) => {
+  router.post("/auth/login", async ({ body, req, res }) => {
+    const email = requireString(body, "email");
+    const password = requireString(body, "password");
+
+    const user = await throttled("login", { email, ip: clientIp(req) }, ["invalid_credentials"], async () => {
+      const user = findUserByEmail(email);
+      const valid = await verifyPassword(password, user?.passwordHash ?? (await dummyPasswordHash));
+      if (!user || !valid) {
+        throw new HttpError(401, "invalid_credentials", "Incorrect email or password");
+      }
+      return user;
+    });
+    if (user.totp) {
+      return { mfaRequired: true, mfaToken: issueMfaChallenge(user.email) };
+    }
+
+    return createSession(res, user);
+  });
+
+  router.post("/auth/refresh", ({ req, res }) => rotateSession(req, res));
+
+  router.post("/auth/logout", ({ req, res }) => {
+    endSession(req, res);
+    return {};
+  });
+
+  router.get("/auth/me", ({ req }) => ({ user: toPublicUser(requireUser(req)) }));
+};
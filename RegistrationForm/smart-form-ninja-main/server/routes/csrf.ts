@@ -0,0 +1,6 @@
+import type { Router } from "../http";
+import { issueCsrfToken } from "../csrf";
+
+export const registerCsrfRoutes = (router: Router) => {
+  router.get("/csrf", ({ req, res }) => issueCsrfToken(req, res));
+};
@@ -0,0 +1,75 @@
+import { config } from "../config";
+import { assertValid, clientIp, HttpError, requireString, type Router } from "../http";
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  mfaChallengeEmail,
+  verifyMfaChallenge,
+  type SecondFactor,
+} from "../mfa";
+import { createSession, requireUser } from "../sessions";
+import { store } from "../store";
+import { throttled } from "../throttle";
+import { generateTotpSecret, matchTotp, totpUri } from "../totp";
+import { validateTotp } from "../../src/lib/validation";
+
+export const registerMfaRoutes = (router: Router) => {
+  router.post("/mfa/totp/setup", ({ req }) => {
+    const user = requireUser(req);
+    if (user.totp) {
+      throw new HttpError(409, "mfa_already_enabled", "Two-factor authentication is already turned on");
+    }
+
+    const secret = generateTotpSecret();
+    store.totpEnrollments.set(user.email, { secret, expiresAt: Date.now() + config.mfa.enrollmentTtlMs });
+
+    return { secret, otpauthUrl: totpUri(secret, user.email) };
+  });
+
+  router.post("/mfa/totp/confirm", ({ body, req }) => {
+    const user = requireUser(req);
+    const code = requireString(body, "code");
+    assertValid(validateTotp(code));
+
+    const enrollment = store.totpEnrollments.get(user.email);
+    if (!enrollment || enrollment.expiresAt < Date.now()) {
+      store.totpEnrollments.delete(user.email);
+      throw new HttpError(400, "mfa_enrollment_expired", "Your setup session expired. Please start again.");
+    }
+    const step = matchTotp(enrollment.secret, code);
+    if (step === null) {
+      throw new HttpError(400, "totp_invalid", "That code doesn't match. Check the time on your device and try again.");
+    }
+
+    // Shown once here and only their hashes kept, like any other code.
+    const recoveryCodes = generateRecoveryCodes();
+    user.totp = {
+      secret: enrollment.secret,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+      enabledAt: Date.now(),
+    };
+    store.totpEnrollments.delete(user.email);
+
+    return { recoveryCodes };
+  });
+
+  router.post("/auth/mfa", async ({ body, req, res }) => {
+    const mfaToken = requireString(body, "mfaToken");
+    let factor: SecondFactor;
+    if (typeof body.recoveryCode === "string" && body.recoveryCode) {
+      factor = { recoveryCode: body.recoveryCode };
+    } else {
+      factor = { code: requireString(body, "code") };
+      assertValid(validateTotp(factor.code));
+    }
+
+    // Counted separately from passwords: each successful password sign-in clears
+    // the login count, which would otherwise give unlimited tries at the code.
+    const subject = { email: mfaChallengeEmail(mfaToken) ?? "", ip: clientIp(req) };
+    const user = await throttled("mfa", subject, ["mfa_invalid", "mfa_attempts_exceeded"], () =>
+      verifyMfaChallenge(mfaToken, factor),
+    );
+    return createSession(res, user);
+  });
+};
@@ -0,0 +1,147 @@
+import { createHash } from "node:crypto";
+import { config } from "../config";
+import { hmac, randomToken } from "../crypto";
+import { originOf, parseCookies, redirect, setCookie, type RouteContext, type Router } from "../http";
+import { issueMfaChallenge } from "../mfa";
+import { PROVIDER_IDS, resolveProvider } from "../oauth/providers";
+import { createSession } from "../sessions";
+import { findUserByEmail, normalizeEmail, store, type User } from "../store";
+
+const STATE_COOKIE = "rf_oauth_state";
+const STATE_COOKIE_PATH = "/api/oauth";
+/** Route in the web app that finishes sign-in once the session cookie is set. */
+const APP_CALLBACK_PATH = "/auth/callback";
+
+// Apple posts the callback cross-site (form_post), which only carries
+// SameSite=None cookies; those in turn require HTTPS.
+const setStateCookie = (ctx: RouteContext, value: string, maxAgeMs: number) =>
+  setCookie(ctx.res, STATE_COOKIE, value, {
+    path: STATE_COOKIE_PATH,
+    maxAgeMs,
+    httpOnly: true,
+    secure: config.session.secureCookies,
+    sameSite: config.session.secureCookies ? "None" : "Lax",
+  });
+
+const redirectUriFor = (ctx: RouteContext, provider: string) =>
+  `${originOf(ctx.req)}/api/oauth/${provider}/callback`;
+
+const finishWithError = (ctx: RouteContext, error: string) =>
+  redirect(ctx.res, `${APP_CALLBACK_PATH}?error=${encodeURIComponent(error)}`);
+
+/** Finds the account for a provider identity, linking by verified email or creating one. */
+const userForIdentity = (provider: string, subject: string, rawEmail: string, emailVerified: boolean) => {
+  const key = `${provider}:${subject}`;
+  const linkedEmail = store.identities.get(key);
+  if (linkedEmail) return findUserByEmail(linkedEmail) ?? null;
+
+  // Linking to an existing account on an unverified address would let anyone
+  // who can register that address at the provider take the account over.
+  if (!emailVerified) return null;
+
+  const email = normalizeEmail(rawEmail);
+  let user: User | undefined = findUserByEmail(email);
+  if (!user) {
+    user = { id: randomToken(12), email, passwordHash: null, createdAt: Date.now() };
+    store.users.set(email, user);
+  }
+  store.identities.set(key, email);
+  return user;
+};
+
+export const registerOAuthRoutes = (router: Router) => {
+  router.get("/oauth/providers", ({ req }) => ({
+    providers: PROVIDER_IDS.map((id) => resolveProvider(id, originOf(req)))
+      .filter((provider) => provider !== null)
+      .map(({ id, name, mock }) => ({ id, name, mock })),
+  }));
+
+  router.get("/oauth/:provider/start", (ctx) => {
+    const provider = resolveProvider(ctx.params.provider, originOf(ctx.req));
+    if (!provider) {
+      finishWithError(ctx, "provider_unavailable");
+      return;
+    }
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken(48);
+    store.oauthPending.set(hmac(state), {
+      provider: provider.id,
+      codeVerifier,
+      nonce,
+      expiresAt: Date.now() + config.oauth.pendingTtlMs,
+    });
+    setStateCookie(ctx, state, config.oauth.pendingTtlMs);
+
+    redirect(
+      ctx.res,
+      provider.authorizationUrl({
+        redirectUri: redirectUriFor(ctx, provider.id),
+        state,
+        nonce,
+        codeChallenge: createHash("sha256").update(codeVerifier).digest("base64url"),
+      }),
+    );
+  });
+
+  const handleCallback = async (ctx: RouteContext) => {
+    const params = { ...Object.fromEntries(ctx.url.searchParams), ...ctx.body } as Record<string, unknown>;
+    const state = typeof params.state === "string" ? params.state : "";
+    const cookieState = parseCookies(ctx.req)[STATE_COOKIE];
+    const pending = state ? store.oauthPending.get(hmac(state)) : undefined;
+
+    setStateCookie(ctx, "", 0);
+    if (state) store.oauthPending.delete(hmac(state));
+
+    // The state must match both a pending request and this browser's cookie,
+    // otherwise someone else's authorization code could be injected here.
+    if (!pending || state !== cookieState || pending.provider !== ctx.params.provider || pending.expiresAt < Date.now()) {
+      finishWithError(ctx, "invalid_state");
+      return;
+    }
+    if (typeof params.error === "string") {
+      finishWithError(ctx, params.error === "access_denied" ? "access_denied" : "provider_error");
+      return;
+    }
+    const provider = resolveProvider(pending.provider, originOf(ctx.req));
+    if (!provider || typeof params.code !== "string") {
+      finishWithError(ctx, "provider_error");
+      return;
+    }
+
+    let identity;
+    try {
+      identity = await provider.exchangeCode({
+        code: params.code,
+        redirectUri: redirectUriFor(ctx, provider.id),
+        codeVerifier: pending.codeVerifier,
+        nonce: pending.nonce,
+      });
+    } catch (err) {
+      console.error(`[oauth] ${provider.name} sign-in failed:`, err);
+      finishWithError(ctx, "provider_error");
+      return;
+    }
+
+    const user = userForIdentity(provider.id, identity.subject, identity.email, identity.emailVerified);
+    if (!user) {
+      finishWithError(ctx, "email_unverified");
+      return;
+    }
+
+    // A provider sign-in stands in for the password only; the second factor is still required.
+    // The challenge rides in the fragment, which is neither sent to servers nor leaked in Referer.
+    if (user.totp) {
+      const mfaToken = encodeURIComponent(issueMfaChallenge(user.email));
+      redirect(ctx.res, `${APP_CALLBACK_PATH}?provider=${provider.id}#mfaToken=${mfaToken}`);
+      return;
+    }
+
+    createSession(ctx.res, user);
+    redirect(ctx.res, `${APP_CALLBACK_PATH}?provider=${provider.id}`);
+  };
+
+  router.get("/oauth/:provider/callback", handleCallback);
+  router.post("/oauth/:provider/callback", handleCallback);
+};
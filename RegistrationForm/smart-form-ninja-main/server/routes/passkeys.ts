@@ -0,0 +1,170 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import type { IncomingMessage } from "node:http";
+import { config } from "../config";
+import { hmac, randomToken } from "../crypto";
+import { HttpError, originOf, parseBody, requireString, type Router } from "../http";
+import { issueMfaChallenge } from "../mfa";
+import { storedProfile } from "../profile";
+import { createSession } from "../sessions";
+import { findUserByEmail, store, type User } from "../store";
+import { findTicket, revokeTicket } from "../tickets";
+import { profileSchema } from "../../src/lib/registration-schemas";
+
+const relyingPartyFor = (req: IncomingMessage) => {
+  const origin = originOf(req);
+  return { origin, rpID: config.webauthn.rpId ?? new URL(origin).hostname };
+};
+
+const saveChallenge = (key: string, challenge: string) => {
+  store.webauthnChallenges.set(hmac(key), { challenge, expiresAt: Date.now() + config.webauthn.challengeTtlMs });
+};
+
+/** Challenges are single-use: a response can only be verified against the challenge once. */
+const takeChallenge = (key: string) => {
+  const entry = store.webauthnChallenges.get(hmac(key));
+  store.webauthnChallenges.delete(hmac(key));
+  if (!entry || entry.expiresAt < Date.now()) {
+    throw new HttpError(400, "passkey_challenge_expired", "This passkey request expired. Please try again.");
+  }
+  return entry.challenge;
+};
+
+const requireCredential = <T>(body: Record<string, unknown>): T => {
+  const response = body.response;
+  if (!response || typeof response !== "object") {
+    throw new HttpError(400, "invalid_request", `"response" is required`);
+  }
+  return response as T;
+};
+
+const requireRegistrationEmail = (token: string) => {
+  const email = findTicket("registration", token);
+  if (!email) {
+    throw new HttpError(400, "registration_expired", "Your verification has expired. Please verify your email again.");
+  }
+  if (findUserByEmail(email)) {
+    throw new HttpError(409, "email_taken", "An account with this email already exists");
+  }
+  return email;
+};
+
+const passkeyRejected = () =>
+  new HttpError(400, "passkey_invalid", "We couldn't verify your passkey. Please try again.");
+
+export const registerPasskeyRoutes = (router: Router) => {
+  router.post("/registration/passkey/options", async ({ body, req }) => {
+    const token = requireString(body, "registrationToken");
+    const email = requireRegistrationEmail(token);
+    const { rpID } = relyingPartyFor(req);
+
+    const options = await generateRegistrationOptions({
+      rpName: config.webauthn.rpName,
+      rpID,
+      userName: email,
+      attestationType: "none",
+      authenticatorSelection: { residentKey: "required", userVerification: "preferred" },
+    });
+    saveChallenge(`registration:${token}`, options.challenge);
+
+    return { options };
+  });
+
+  router.post("/registration/passkey/verify", async ({ body, req, res }) => {
+    const token = requireString(body, "registrationToken");
+    const response = requireCredential<RegistrationResponseJSON>(body);
+    const email = requireRegistrationEmail(token);
+    const profile = storedProfile(parseBody(profileSchema, body));
+    const expectedChallenge = takeChallenge(`registration:${token}`);
+    const { origin, rpID } = relyingPartyFor(req);
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: false,
+      });
+    } catch {
+      throw passkeyRejected();
+    }
+    if (!verification.verified) throw passkeyRejected();
+
+    const { credential } = verification.registrationInfo;
+    const user: User = { id: randomToken(12), email, ...profile, passwordHash: null, createdAt: Date.now() };
+    store.users.set(user.email, user);
+    store.passkeys.set(credential.id, {
+      id: credential.id,
+      email,
+      publicKey: credential.publicKey,
+      counter: credential.counter,
+      transports: credential.transports,
+      createdAt: Date.now(),
+    });
+    revokeTicket(token);
+
+    return createSession(res, user);
+  });
+
+  // Passkeys are created as discoverable credentials, so sign-in does not ask
+  // for an email first and the authenticator offers whichever it holds.
+  router.post("/auth/passkey/options", async ({ req }) => {
+    const options = await generateAuthenticationOptions({
+      rpID: relyingPartyFor(req).rpID,
+      userVerification: "preferred",
+    });
+    const challengeId = randomToken();
+    saveChallenge(`login:${challengeId}`, options.challenge);
+
+    return { challengeId, options };
+  });
+
+  router.post("/auth/passkey/verify", async ({ body, req, res }) => {
+    const challengeId = requireString(body, "challengeId");
+    const response = requireCredential<AuthenticationResponseJSON>(body);
+    const expectedChallenge = takeChallenge(`login:${challengeId}`);
+
+    const passkey = store.passkeys.get(response.id);
+    const user = passkey && findUserByEmail(passkey.email);
+    if (!passkey || !user) {
+      throw new HttpError(401, "passkey_unknown", "This passkey isn't registered with Classroom.");
+    }
+
+    const { origin, rpID } = relyingPartyFor(req);
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: {
+          id: passkey.id,
+          publicKey: passkey.publicKey,
+          counter: passkey.counter,
+          transports: passkey.transports,
+        },
+        requireUserVerification: false,
+      });
+    } catch {
+      throw passkeyRejected();
+    }
+    if (!verification.verified) throw passkeyRejected();
+
+    passkey.counter = verification.authenticationInfo.newCounter;
+    // A passkey stands in for the password, not for the second factor.
+    if (user.totp) {
+      return { mfaRequired: true, mfaToken: issueMfaChallenge(user.email) };
+    }
+
+    return createSession(res, user);
+  });
+};
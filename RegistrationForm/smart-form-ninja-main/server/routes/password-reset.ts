@@ -0,0 +1,78 @@
+import { config } from "../config";
+import { hashPassword } from "../crypto";
+import { assertValid, clientIp, HttpError, requireString, type Router } from "../http";
+import { sendMail } from "../mailer";
+import { hasOtp, initialOtpStatus, issueOtp, verifyOtp } from "../otp";
+import { assertNotBreached } from "../pwned";
+import { revokeUserSessions } from "../sessions";
+import { findUserByEmail, normalizeEmail } from "../store";
+import { throttled } from "../throttle";
+import { findTicket, issueTicket, revokeTicket } from "../tickets";
+import { validateEmail, validateOTP, validatePassword } from "../../src/lib/validation";
+
+// Unknown emails get the same response as known ones so the reset form
+// cannot be used to find out who has an account.
+const sendResetCode = async (email: string) => {
+  if (!findUserByEmail(email)) {
+    return { email: normalizeEmail(email), ...initialOtpStatus() };
+  }
+  const { code, status } = issueOtp("password-reset", email);
+  await sendMail(email, "Reset your Classroom password", `Your password reset code is ${code}.`);
+  return { email: normalizeEmail(email), ...status };
+};
+
+export const registerPasswordResetRoutes = (router: Router) => {
+  router.post("/password-reset/request", ({ body }) => {
+    const email = requireString(body, "email");
+    assertValid(validateEmail(email));
+
+    return sendResetCode(email);
+  });
+
+  router.post("/password-reset/resend", ({ body }) => {
+    const email = requireString(body, "email");
+    if (findUserByEmail(email) && !hasOtp("password-reset", email)) {
+      throw new HttpError(400, "otp_not_found", "No reset code was requested for this email");
+    }
+    return sendResetCode(email);
+  });
+
+  router.post("/password-reset/verify", async ({ body, req }) => {
+    const email = requireString(body, "email");
+    const code = requireString(body, "code");
+    assertValid(validateOTP(code));
+
+    await throttled("otp", { email, ip: clientIp(req) }, ["otp_invalid", "otp_attempts_exceeded"], () => {
+      try {
+        verifyOtp("password-reset", email, code);
+      } catch (err) {
+        if (err instanceof HttpError && err.code === "otp_not_found") {
+          throw new HttpError(400, "otp_invalid", "The verification code is incorrect");
+        }
+        throw err;
+      }
+    });
+
+    const resetToken = issueTicket("password-reset", normalizeEmail(email), config.resetTokenTtlMs);
+    return { resetToken };
+  });
+
+  router.post("/password-reset/complete", async ({ body }) => {
+    const token = requireString(body, "resetToken");
+    const password = requireString(body, "password");
+
+    const email = findTicket("password-reset", token);
+    const user = email ? findUserByEmail(email) : undefined;
+    if (!user) {
+      throw new HttpError(400, "reset_expired", "Your reset session has expired. Please start again.");
+    }
+    assertValid(validatePassword(password));
+    await assertNotBreached(password);
+
+    user.passwordHash = await hashPassword(password);
+    revokeTicket(token);
+    revokeUserSessions(user.email);
+
+    return { email: user.email };
+  });
+};
@@ -0,0 +1,16 @@
+import { HttpError, sendText, type Router } from "../http";
+import { isHashPrefix, rangeResponse } from "../pwned";
+
+/**
+ * Local stand-in for the Pwned Passwords range API. Clients send only the
+ * first five hex characters of the password's SHA-1 and match the suffix
+ * themselves, so the password never reaches this endpoint.
+ */
+export const registerPwnedRoutes = (router: Router) => {
+  router.get("/pwned/range/:prefix", ({ req, res, params }) => {
+    if (!isHashPrefix(params.prefix)) {
+      throw new HttpError(400, "invalid_request", "The hash prefix must be 5 hexadecimal characters");
+    }
+    sendText(res, 200, rangeResponse(params.prefix, req.headers["add-padding"] === "true"));
+  });
+};
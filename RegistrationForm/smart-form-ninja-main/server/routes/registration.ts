@@ -0,0 +1,224 @@
+import { z } from "zod";
+import { issueFormToken, screenSubmission } from "../bot-check";
+import { config } from "../config";
+import { hashPassword, hmac, randomToken, safeEqual } from "../crypto";
+import {
+  clientIp,
+  HttpError,
+  originOf,
+  parseBody,
+  parseCookies,
+  requireString,
+  setCookie,
+  type RouteContext,
+  type Router,
+} from "../http";
+import { sendMail } from "../mailer";
+import { consumeOtpLink, hasOtp, initialOtpStatus, issueOtp, verifyOtp } from "../otp";
+import { assertPowSolved, issuePowChallenge } from "../pow";
+import { storedProfile } from "../profile";
+import { assertNotBreached } from "../pwned";
+import { createSession } from "../sessions";
+import { readSignedToken, signToken } from "../signed-token";
+import { findUserByEmail, normalizeEmail, store, toPublicUser, type User } from "../store";
+import { throttled, throttledPerIp } from "../throttle";
+import { findTicket, issueTicket, revokeTicket } from "../tickets";
+import { checkEmailQuality } from "../../src/lib/email-quality";
+import {
+  accountSchema,
+  emailSchema,
+  otpSchema,
+  passwordSchema,
+  profileSchema,
+} from "../../src/lib/registration-schemas";
+
+const DEVICE_COOKIE = "rf_device";
+const DEVICE_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+interface MagicLinkPayload extends Record<string, unknown> {
+  email: string;
+  linkId: string;
+  /** HMAC of the device cookie of the browser that requested the code. */
+  device: string;
+  exp: number;
+}
+
+/** Identifies this browser so a magic link only completes sign-up on the device that asked for it. */
+const deviceIdFor = (ctx: RouteContext) => {
+  let deviceId = parseCookies(ctx.req)[DEVICE_COOKIE];
+  if (!deviceId) {
+    deviceId = randomToken();
+    setCookie(ctx.res, DEVICE_COOKIE, deviceId, {
+      path: "/api/registration",
+      maxAgeMs: DEVICE_COOKIE_MAX_AGE_MS,
+      httpOnly: true,
+      secure: config.session.secureCookies,
+    });
+  }
+  return deviceId;
+};
+
+const sendRegistrationCode = async (ctx: RouteContext, email: string) => {
+  const { code, linkId, expiresAt, status } = issueOtp("registration", email);
+  const token = signToken("magic-link", {
+    email: normalizeEmail(email),
+    linkId,
+    device: hmac(`device:${deviceIdFor(ctx)}`),
+    exp: expiresAt,
+  } satisfies MagicLinkPayload);
+  const link = `${originOf(ctx.req)}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail(
+    email,
+    "Your Classroom verification code",
+    `Your verification code is ${code}.\n\nOr verify on this device by opening:\n${link}`,
+  );
+  return { email: normalizeEmail(email), ...status };
+};
+
+const issueRegistrationToken = (email: string) =>
+  issueTicket("registration", normalizeEmail(email), config.registrationTokenTtlMs);
+
+const assertEmailAccepted = (email: string) => {
+  const issue = checkEmailQuality(email, config.emailQuality);
+  if (issue?.blocking) {
+    throw new HttpError(400, "email_rejected", issue.message, { reason: issue.kind, suggestion: issue.suggestion });
+  }
+};
+
+export const registerRegistrationRoutes = (router: Router) => {
+  router.get("/registration/challenge", () => issuePowChallenge());
+
+  router.get("/registration/form-token", () => issueFormToken());
+
+  router.post("/registration/start", async (ctx) => {
+    const { email } = parseBody(z.object({ email: emailSchema }), ctx.body);
+    assertPowSolved(ctx.body.pow);
+    assertEmailAccepted(email);
+
+    // Discarded submissions get the same answer a real one would, without a code being sent.
+    if (screenSubmission(ctx, email)?.discard) {
+      return { email: normalizeEmail(email), ...initialOtpStatus() };
+    }
+    return sendRegistrationCode(ctx, email);
+  });
+
+  /**
+   * One-step sign-up from the single-page form: creates the account straight
+   * away, marked unverified because no code has confirmed the email.
+   */
+  router.post("/registration/account", async (ctx) => {
+    const details = parseBody(accountSchema, ctx.body);
+    const { name, email, phone, password } = details;
+    assertEmailAccepted(email);
+    await assertNotBreached(password);
+
+    // Checked before the duplicate-email check so a discarded script can't use it to find accounts.
+    const suspicion = screenSubmission(ctx, email);
+    if (suspicion?.discard) {
+      return { user: { id: randomToken(12), email: normalizeEmail(email) } };
+    }
+    if (findUserByEmail(email)) {
+      // Under "conceal" a taken email gets the same answer as a new account, like the lookup does.
+      if (config.emailLookupPolicy === "conceal") {
+        return { user: { id: randomToken(12), email: normalizeEmail(email) } };
+      }
+      throw new HttpError(409, "email_taken", "An account with this email already exists");
+    }
+
+    const user: User = {
+      id: randomToken(12),
+      email: normalizeEmail(email),
+      name: name.trim(),
+      phone: phone.trim(),
+      ...storedProfile(details),
+      passwordHash: await hashPassword(password),
+      unverified: true,
+      botFlag: suspicion?.reason,
+      createdAt: Date.now(),
+    };
+    store.users.set(user.email, user);
+    return { user: toPublicUser(user) };
+  });
+
+  router.post("/registration/email-status", ({ body, req }) => {
+    const { email } = parseBody(z.object({ email: emailSchema }), body);
+
+    if (config.emailLookupPolicy === "conceal") {
+      return { email: normalizeEmail(email), status: "unknown" };
+    }
+    return throttledPerIp("lookup", clientIp(req), () => ({
+      email: normalizeEmail(email),
+      status: findUserByEmail(email) ? "registered" : "available",
+    }));
+  });
+
+  router.post("/registration/resend", (ctx) => {
+    const email = requireString(ctx.body, "email");
+    if (!hasOtp("registration", email)) {
+      throw new HttpError(400, "otp_not_found", "No verification code was requested for this email");
+    }
+    return sendRegistrationCode(ctx, email);
+  });
+
+  router.post("/registration/verify", async ({ body, req }) => {
+    const email = requireString(body, "email");
+    const { code } = parseBody(z.object({ code: otpSchema }), body);
+
+    await throttled("otp", { email, ip: clientIp(req) }, ["otp_invalid", "otp_attempts_exceeded"], () =>
+      verifyOtp("registration", email, code),
+    );
+
+    return { registrationToken: issueRegistrationToken(email) };
+  });
+
+  router.post("/registration/verify-link", ({ body, req }) => {
+    const payload = readSignedToken<MagicLinkPayload>("magic-link", requireString(body, "token"));
+    if (!payload) {
+      throw new HttpError(400, "link_invalid", "This verification link is not valid");
+    }
+    if (payload.exp <= Date.now()) {
+      throw new HttpError(400, "link_expired", "This link has expired. Please request a new code.");
+    }
+    const deviceId = parseCookies(req)[DEVICE_COOKIE];
+    if (!deviceId || !safeEqual(hmac(`device:${deviceId}`), payload.device)) {
+      throw new HttpError(
+        400,
+        "link_wrong_device",
+        "Open this link on the device where you started signing up, or enter the code instead.",
+      );
+    }
+
+    consumeOtpLink("registration", payload.email, payload.linkId);
+
+    return { email: payload.email, registrationToken: issueRegistrationToken(payload.email) };
+  });
+
+  router.post("/registration/complete", async ({ body, res }) => {
+    const token = requireString(body, "registrationToken");
+    const password = requireString(body, "password");
+
+    const email = findTicket("registration", token);
+    if (!email) {
+      throw new HttpError(400, "registration_expired", "Your verification has expired. Please verify your email again.");
+    }
+    parseBody(z.object({ password: passwordSchema }), body);
+    const profile = storedProfile(parseBody(profileSchema, body));
+    await assertNotBreached(password);
+    if (findUserByEmail(email)) {
+      throw new HttpError(409, "email_taken", "An account with this email already exists");
+    }
+
+    const user: User = {
+      id: randomToken(12),
+      email,
+      ...profile,
+      passwordHash: await hashPassword(password),
+      createdAt: Date.now(),
+    };
+    store.users.set(user.email, user);
+    revokeTicket(token);
+
+    return createSession(res, user);
+  });
+};
@@ -0,0 +1,113 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { config } from "./config";
+import { hmac, randomToken } from "./crypto";
+import { HttpError, parseCookies, setCookie } from "./http";
+import { findUserByEmail, store, toPublicUser, type User } from "./store";
+
+const REFRESH_COOKIE = "rf_refresh";
+const REFRESH_COOKIE_PATH = "/api/auth";
+
+const setRefreshCookie = (res: ServerResponse, token: string, maxAgeMs: number) =>
+  setCookie(res, REFRESH_COOKIE, token, {
+    path: REFRESH_COOKIE_PATH,
+    maxAgeMs,
+    httpOnly: true,
+    secure: config.session.secureCookies,
+    sameSite: "Strict",
+  });
+
+const revokeFamily = (familyId: string) => {
+  for (const [key, record] of store.refreshTokens) {
+    if (record.familyId === familyId) store.refreshTokens.delete(key);
+  }
+};
+
+/**
+ * Issues an access token for the response body and a rotating refresh token
+ * as an HttpOnly cookie. Returns the payload the client keeps as its session.
+ */
+export const createSession = (res: ServerResponse, user: User, familyId = randomToken(12)) => {
+  const now = Date.now();
+  const accessToken = randomToken();
+  const refreshToken = randomToken();
+
+  store.accessTokens.set(hmac(accessToken), { email: user.email, expiresAt: now + config.session.accessTokenTtlMs });
+  store.refreshTokens.set(hmac(refreshToken), {
+    email: user.email,
+    familyId,
+    expiresAt: now + config.session.refreshTokenTtlMs,
+    rotatedAt: null,
+  });
+  setRefreshCookie(res, refreshToken, config.session.refreshTokenTtlMs);
+
+  return {
+    accessToken,
+    expiresIn: Math.floor(config.session.accessTokenTtlMs / 1000),
+    user: toPublicUser(user),
+  };
+};
+
+export type Session = ReturnType<typeof createSession>;
+
+/**
+ * Exchanges the refresh cookie for a new session. Presenting a token that was
+ * already rotated (outside the grace window) revokes its whole family.
+ */
+export const rotateSession = (req: IncomingMessage, res: ServerResponse) => {
+  const token = parseCookies(req)[REFRESH_COOKIE];
+  const record = token ? store.refreshTokens.get(hmac(token)) : undefined;
+  const now = Date.now();
+
+  if (!token || !record || record.expiresAt < now) {
+    setRefreshCookie(res, "", 0);
+    throw new HttpError(401, "session_expired", "Your session has expired. Please log in again.");
+  }
+  if (record.rotatedAt !== null && now - record.rotatedAt > config.session.reuseGraceMs) {
+    revokeFamily(record.familyId);
+    setRefreshCookie(res, "", 0);
+    throw new HttpError(401, "session_revoked", "Your session was ended for security reasons. Please log in again.");
+  }
+
+  const user = findUserByEmail(record.email);
+  if (!user) {
+    revokeFamily(record.familyId);
+    throw new HttpError(401, "session_expired", "Your session has expired. Please log in again.");
+  }
+
+  record.rotatedAt ??= now;
+  return createSession(res, user, record.familyId);
+};
+
+export const endSession = (req: IncomingMessage, res: ServerResponse) => {
+  const token = parseCookies(req)[REFRESH_COOKIE];
+  const record = token ? store.refreshTokens.get(hmac(token)) : undefined;
+  if (record) revokeFamily(record.familyId);
+
+  const bearer = req.headers.authorization?.replace(/^Bearer /, "");
+  if (bearer) store.accessTokens.delete(hmac(bearer));
+
+  setRefreshCookie(res, "", 0);
+};
+
+/** Signs `email` out everywhere, e.g. after a password reset. */
+export const revokeUserSessions = (email: string) => {
+  for (const [key, record] of store.refreshTokens) {
+    if (record.email === email) store.refreshTokens.delete(key);
+  }
+  for (const [key, record] of store.accessTokens) {
+    if (record.email === email) store.accessTokens.delete(key);
+  }
+};
+
+/** Resolves the user behind the request's bearer token, or throws 401. */
+export const requireUser = (req: IncomingMessage) => {
+  const bearer = req.headers.authorization?.replace(/^Bearer /, "");
+  const record = bearer ? store.accessTokens.get(hmac(bearer)) : undefined;
+  if (!bearer || !record || record.expiresAt < Date.now()) {
+    if (bearer) store.accessTokens.delete(hmac(bearer));
+    throw new HttpError(401, "unauthenticated", "Please log in to continue");
+  }
+  const user = findUserByEmail(record.email);
+  if (!user) throw new HttpError(401, "unauthenticated", "Please log in to continue");
+  return user;
+};
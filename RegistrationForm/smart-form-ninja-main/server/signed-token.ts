@@ -0,0 +1,34 @@
+import { hmac, safeEqual } from "./crypto";
+
+/**
+ * What a token is for. Every token shares one key, so the type is signed into
+ * the payload and checked on reading; otherwise a token issued for one purpose
+ * could be replayed as another.
+ */
+export type SignedTokenType = "csrf" | "pow" | "magic-link" | "form-start";
+
+/**
+ * Compact `payload.signature` tokens, HMAC-signed with the server secret. The
+ * payload is readable by the client, so never put secrets in it.
+ */
+export const signToken = (typ: SignedTokenType, payload: Record<string, unknown>) => {
+  const encoded = Buffer.from(JSON.stringify({ ...payload, typ })).toString("base64url");
+  return `${encoded}.${hmac(`signed-token:${encoded}`)}`;
+};
+
+/**
+ * Returns the payload of a `typ` token this server signed, or `null` when it
+ * was tampered with or issued for something else. Fields other than `typ` are
+ * as signed but unchecked, so validate any the signer might not have set.
+ */
+export const readSignedToken = <T extends Record<string, unknown>>(typ: SignedTokenType, token: string): T | null => {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature || !safeEqual(signature, hmac(`signed-token:${encoded}`))) return null;
+  try {
+    const payload: unknown = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (typeof payload !== "object" || payload === null || (payload as { typ?: unknown }).typ !== typ) return null;
+    return payload as T;
+  } catch {
+    return null;
+  }
+};
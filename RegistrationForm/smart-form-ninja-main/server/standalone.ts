@@ -0,0 +1,23 @@
+import { createServer } from "node:http";
+import { sendJson } from "./http";
+import { API_PREFIX, createApiMiddleware } from "./index";
+
+const port = Number(process.env.API_PORT) || 8787;
+const middleware = createApiMiddleware();
+
+createServer((req, res) => {
+  middleware(req, res, (err) => {
+    if (!err) {
+      sendJson(res, 404, { error: "not_found", message: "Not found" });
+      return;
+    }
+    console.error("[api] Unhandled error:", err);
+    if (!res.headersSent) {
+      sendJson(res, 500, { error: "internal_error", message: "Something went wrong. Please try again." });
+    } else {
+      res.end();
+    }
+  });
+}).listen(port, () => {
+  console.info(`Registration API listening on http://localhost:${port}${API_PREFIX}`);
+});
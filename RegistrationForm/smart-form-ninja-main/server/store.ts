@@ -0,0 +1,168 @@
+import type { AuthenticatorTransportFuture } from "@simplewebauthn/server";
+import type { BotReason } from "../src/lib/bot-signals";
+import type { Role } from "../src/lib/validation";
+
+export interface User {
+  id: string;
+  email: string;
+  /** `null` for accounts created with a social provider or a passkey until a password is set. */
+  passwordHash: string | null;
+  /** Set once the user has confirmed an authenticator app; password sign-in then asks for a code. */
+  totp?: TotpFactor;
+  /** Collected by the one-page sign-up form. */
+  name?: string;
+  phone?: string;
+  role?: Role;
+  /** Only asked of students. */
+  age?: number;
+  /** Only asked of teachers. */
+  schoolName?: string;
+  /** Only asked for students under 13. */
+  guardianEmail?: string;
+  /**
+   * Accounts from the one-page form, whose email has not been confirmed with a
+   * code. `findUserByEmail` skips them until then.
+   */
+  unverified?: boolean;
+  /** Why the bot checks flagged this sign-up, when they are set to flag rather than discard. */
+  botFlag?: BotReason;
+  createdAt: number;
+}
+
+export interface TotpFactor {
+  /** Base32 shared secret. Unlike codes and tokens it cannot be hashed, as the server recomputes codes from it. */
+  secret: string;
+  recoveryCodeHashes: string[];
+  /** Time step of the last accepted code, so a code cannot be replayed within its window. */
+  lastUsedStep: number;
+  enabledAt: number;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  expiresAt: number;
+}
+
+/** A password sign-in waiting for its second factor. */
+export interface MfaChallenge {
+  email: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export interface OAuthPending {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+export type OtpPurpose = "registration" | "password-reset";
+
+export interface OtpRecord {
+  purpose: OtpPurpose;
+  email: string;
+  codeHash: string;
+  /** Identifies the magic link mailed with this code; a new code invalidates the old link. */
+  linkId: string;
+  issuedAt: number;
+  expiresAt: number;
+  attempts: number;
+  sendCount: number;
+  firstSentAt: number;
+}
+
+/** Proof that `email` passed a code check for `purpose`, redeemable once for the follow-up step. */
+export interface Ticket {
+  purpose: OtpPurpose;
+  email: string;
+  expiresAt: number;
+}
+
+export interface AccessToken {
+  email: string;
+  expiresAt: number;
+}
+
+export interface RefreshToken {
+  email: string;
+  /** Shared by every token rotated from the same sign-in; revoked together on reuse. */
+  familyId: string;
+  expiresAt: number;
+  rotatedAt: number | null;
+}
+
+export interface Passkey {
+  /** Base64url credential ID as reported by the authenticator. */
+  id: string;
+  email: string;
+  publicKey: Uint8Array;
+  counter: number;
+  transports?: AuthenticatorTransportFuture[];
+  createdAt: number;
+}
+
+/** Failed guesses at a code or password by one email or IP address. */
+export interface ThrottleRecord {
+  failures: number;
+  lastFailureAt: number;
+  /** Further attempts are refused until then. */
+  lockedUntil: number;
+}
+
+/** A sign-up submission the bot checks caught, kept for review. */
+export interface BotSubmission {
+  route: string;
+  email: string;
+  ip: string;
+  reason: BotReason;
+  action: "discard" | "flag";
+  at: number;
+}
+
+export interface WebAuthnChallenge {
+  challenge: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory persistence for the local registration service. Everything is
+ * keyed by normalised email or by a hash of the bearer token, so a dump of
+ * the store never contains a usable code or token.
+ */
+export const store = {
+  users: new Map<string, User>(),
+  otps: new Map<string, OtpRecord>(),
+  tickets: new Map<string, Ticket>(),
+  accessTokens: new Map<string, AccessToken>(),
+  refreshTokens: new Map<string, RefreshToken>(),
+  oauthPending: new Map<string, OAuthPending>(),
+  /** `${provider}:${subject}` to the normalised email of the linked account. */
+  identities: new Map<string, string>(),
+  passkeys: new Map<string, Passkey>(),
+  webauthnChallenges: new Map<string, WebAuthnChallenge>(),
+  totpEnrollments: new Map<string, TotpEnrollment>(),
+  mfaChallenges: new Map<string, MfaChallenge>(),
+  /** `${scope}:email:${email}` or `${scope}:ip:${address}`. */
+  throttles: new Map<string, ThrottleRecord>(),
+  /** `${scope}:ip:${address}` to when its requests within the rate limit's window were made, oldest first. */
+  requestTimes: new Map<string, number[]>(),
+  /** Salts of solved proof-of-work challenges to when they expire, so each solution is accepted once. */
+  spentPowChallenges: new Map<string, number>(),
+  /** Most recent first, capped so a flood of bot traffic can't exhaust memory. */
+  botSubmissions: [] as BotSubmission[],
+};
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * The account registered to `email`. Unverified accounts don't count: nobody
+ * has shown they own the address, so they can't sign in, reset a password or
+ * be linked to a social login, and a verified sign-up replaces them.
+ */
+export const findUserByEmail = (email: string) => {
+  const user = store.users.get(normalizeEmail(email));
+  return user?.unverified ? undefined : user;
+};
+
+export const toPublicUser = (user: User) => ({ id: user.id, email: user.email });
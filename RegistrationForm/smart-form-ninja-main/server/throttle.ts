@@ -0,0 +1,131 @@
+import { config } from "./config";
+import { HttpError } from "./http";
+import { normalizeEmail, store, type ThrottleRecord } from "./store";
+
+/** What is being guessed. Each scope keeps its own counts, so failed logins don't lock out sign-up codes. */
+export type ThrottleScope = "otp" | "login" | "mfa";
+
+/** What is being requested too often, whether or not each request succeeds. */
+export type RateLimitScope = "lookup";
+
+/** Who is guessing: the account being targeted and the address the guesses come from. */
+export interface ThrottleSubject {
+  email: string;
+  ip: string;
+}
+
+const LOCKED_OUT_MESSAGE = "Too many incorrect attempts. Please wait before trying again.";
+
+const secondsUntil = (timestamp: number) => Math.max(0, Math.ceil((timestamp - Date.now()) / 1000));
+
+interface ThrottleKey {
+  key: string;
+  freeAttempts: number;
+}
+
+const keysOf = (scope: ThrottleScope, { email, ip }: ThrottleSubject): ThrottleKey[] => [
+  { key: `${scope}:email:${normalizeEmail(email)}`, freeAttempts: config.throttle.freeAttemptsPerEmail },
+  { key: `${scope}:ip:${ip}`, freeAttempts: config.throttle.freeAttemptsPerIp },
+];
+
+/** The record for `key`, dropping it once enough time has passed since its last failure. */
+const current = (key: string) => {
+  const record = store.throttles.get(key);
+  if (record && Date.now() - record.lastFailureAt > config.throttle.resetAfterMs) {
+    store.throttles.delete(key);
+    return undefined;
+  }
+  return record;
+};
+
+const lockoutError = (lockedUntil: number, message = LOCKED_OUT_MESSAGE) =>
+  new HttpError(429, "too_many_attempts", message, { retryAfter: secondsUntil(lockedUntil) });
+
+/** Refuses the attempt while any of `keys` is locked out. */
+const assertNotThrottled = (keys: ThrottleKey[], message?: string) => {
+  const lockedUntil = Math.max(0, ...keys.map(({ key }) => current(key)?.lockedUntil ?? 0));
+  if (lockedUntil > Date.now()) throw lockoutError(lockedUntil, message);
+};
+
+/**
+ * Counts a failed guess against each of `keys`, usually the email and the IP
+ * address. Past the free attempts, each failure locks the subject out for
+ * twice as long as the one before. Returns when the lockout ends, or 0 if
+ * there is none.
+ */
+const recordFailure = (keys: ThrottleKey[]) => {
+  const now = Date.now();
+  let lockedUntil = 0;
+  for (const { key, freeAttempts } of keys) {
+    const record: ThrottleRecord = current(key) ?? { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+    record.failures += 1;
+    record.lastFailureAt = now;
+    if (record.failures > freeAttempts) {
+      const lockoutMs = config.throttle.baseLockoutMs * 2 ** (record.failures - freeAttempts - 1);
+      record.lockedUntil = now + Math.min(lockoutMs, config.throttle.maxLockoutMs);
+    }
+    store.throttles.set(key, record);
+    lockedUntil = Math.max(lockedUntil, record.lockedUntil);
+  }
+  return lockedUntil > now ? lockedUntil : 0;
+};
+
+/**
+ * Clears the email's count after a successful attempt. The IP's count is kept,
+ * so an attacker can't reset it by signing in to an account of their own.
+ */
+const clearFailures = (scope: ThrottleScope, subject: ThrottleSubject) => {
+  store.throttles.delete(keysOf(scope, subject)[0].key);
+};
+
+/**
+ * Runs one guess at a code or password. Refuses it during a lockout, and counts
+ * it when it fails with one of `failureCodes`. A failure that starts a lockout
+ * is reported as the lockout, so the client can show when to try again.
+ */
+export const throttled = async <T>(
+  scope: ThrottleScope,
+  subject: ThrottleSubject,
+  failureCodes: string[],
+  attempt: () => T | Promise<T>,
+): Promise<T> => {
+  const keys = keysOf(scope, subject);
+  assertNotThrottled(keys);
+  try {
+    const result = await attempt();
+    clearFailures(scope, subject);
+    return result;
+  } catch (err) {
+    if (err instanceof HttpError && failureCodes.includes(err.code)) {
+      const lockedUntil = recordFailure(keys);
+      if (lockedUntil) throw lockoutError(lockedUntil);
+    }
+    throw err;
+  }
+};
+
+const rateLimits: Record<RateLimitScope, () => { limit: number; windowMs: number }> = {
+  lookup: () => ({ limit: config.throttle.lookupsPerIp, windowMs: config.throttle.lookupWindowMs }),
+};
+
+/**
+ * Limits a request by volume rather than by failed guesses, such as looking up
+ * whether an email is registered. Every call counts against the IP address
+ * alone, since one address trying many different emails is what enumeration
+ * looks like. The limit is over a sliding window rather than a lockout, so a
+ * busy address shared by a whole classroom waits seconds, not the rest of the day.
+ */
+export const throttledPerIp = <T>(scope: RateLimitScope, ip: string, attempt: () => T): T => {
+  const { limit, windowMs } = rateLimits[scope]();
+  const key = `${scope}:ip:${ip}`;
+  const now = Date.now();
+  const recent = (store.requestTimes.get(key) ?? []).filter((at) => at > now - windowMs);
+  if (recent.length >= limit) {
+    store.requestTimes.set(key, recent);
+    // Another request fits once the oldest one leaves the window.
+    throw lockoutError(recent[0] + windowMs, "Too many requests. Please wait before trying again.");
+  }
+  recent.push(now);
+  store.requestTimes.set(key, recent);
+  return attempt();
+};
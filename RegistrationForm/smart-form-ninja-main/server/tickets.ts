@@ -0,0 +1,23 @@
+import { hmac, randomToken } from "./crypto";
+import { store, type OtpPurpose } from "./store";
+
+export const issueTicket = (purpose: OtpPurpose, email: string, ttlMs: number) => {
+  const token = randomToken();
+  store.tickets.set(hmac(token), { purpose, email, expiresAt: Date.now() + ttlMs });
+  return token;
+};
+
+/** Returns the email `token` was issued to, or `null` when it is unknown, expired or for another purpose. */
+export const findTicket = (purpose: OtpPurpose, token: string) => {
+  const ticket = store.tickets.get(hmac(token));
+  if (!ticket || ticket.purpose !== purpose) return null;
+  if (ticket.expiresAt < Date.now()) {
+    store.tickets.delete(hmac(token));
+    return null;
+  }
+  return ticket.email;
+};
+
+export const revokeTicket = (token: string) => {
+  store.tickets.delete(hmac(token));
+};
@@ -0,0 +1,69 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { config } from "./config";
+import { safeEqual } from "./crypto";
+import { TOTP_LENGTH } from "../src/lib/validation";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+/** Steps either side of now that are still accepted, to tolerate clock drift on the user's phone. */
+const DRIFT_STEPS = 1;
+
+const toBase32 = (bytes: Buffer) => {
+  let bits = "";
+  for (const byte of bytes) bits += byte.toString(2).padStart(8, "0");
+  let output = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+  }
+  return output;
+};
+
+const fromBase32 = (value: string) => {
+  let bits = "";
+  for (const char of value.replace(/=+$/, "").toUpperCase()) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, "0");
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  return Buffer.from(bytes);
+};
+
+/** HOTP (RFC 4226) for the given counter, which TOTP derives from the clock. */
+const codeForStep = (secret: string, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac("sha1", fromBase32(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_LENGTH).toString().padStart(TOTP_LENGTH, "0");
+};
+
+const currentStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+export const generateTotpSecret = () => toBase32(randomBytes(20));
+
+/** The `otpauth://` URI authenticator apps read from the enrollment QR code. */
+export const totpUri = (secret: string, email: string) => {
+  const { issuer } = config.mfa;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_LENGTH),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${encodeURIComponent(`${issuer}:${email}`)}?${params}`;
+};
+
+/**
+ * Returns the time step `code` was generated for, or `null` when it matches
+ * none near the current time. Steps at or before `afterStep` are rejected so
+ * an accepted code cannot be used twice.
+ */
+export const matchTotp = (secret: string, code: string, afterStep = -1) => {
+  const now = currentStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (step > afterStep && safeEqual(codeForStep(secret, step), code)) return step;
+  }
+  return null;
+};
@@ -0,0 +1,27 @@
+import { useMemo, type ReactNode } from "react";
+
+interface AuthLayoutProps {
+  children: ReactNode;
+}
+
+const AuthLayout = ({ children }: AuthLayoutProps) => {
+  const dots = useMemo(
+    () => [...Array(50)].map(() => ({ left: `${Math.random() * 100}%`, top: `${Math.random() * 100}%` })),
+    [],
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-accent/5 to-primary/10 relative overflow-hidden">
+      {/* Decorative dots */}
+      <div className="absolute inset-0 opacity-30">
+        {dots.map((style, i) => (
+          <div key={i} className="absolute w-1 h-1 bg-primary rounded-full" style={style} />
+        ))}
+      </div>
+
+      {children}
+    </div>
+  );
+};
+
+export default AuthLayout;
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { AuthContext, type AuthContextValue, type AuthStatus } from "@/hooks/use-auth";
+import { setAccessToken } from "@/lib/api";
+import { logout, refreshSession, type Session } from "@/lib/auth";
+import type { RegisteredUser } from "@/lib/registration";
+
+// Refresh a little before the access token runs out so requests never race its expiry.
+const REFRESH_MARGIN_SECONDS = 60;
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+const AuthProvider = ({ children }: AuthProviderProps) => {
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const [user, setUser] = useState<RegisteredUser | null>(null);
+  const refreshTimer = useRef<number>();
+
+  const clearSession = useCallback(() => {
+    window.clearTimeout(refreshTimer.current);
+    setAccessToken(null);
+    setUser(null);
+    setStatus("anonymous");
+  }, []);
+
+  const signIn = useCallback(
+    (session: Session) => {
+      setAccessToken(session.accessToken);
+      setUser(session.user);
+      setStatus("authenticated");
+
+      window.clearTimeout(refreshTimer.current);
+      const delay = Math.max(session.expiresIn - REFRESH_MARGIN_SECONDS, 5) * 1000;
+      refreshTimer.current = window.setTimeout(() => {
+        refreshSession().then(signIn, clearSession);
+      }, delay);
+    },
+    [clearSession],
+  );
+
+  const signOut = useCallback(async () => {
+    try {
+      await logout();
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  // The refresh token lives in an HttpOnly cookie, so restoring the session
+  // after a reload is a single rotation request.
+  useEffect(() => {
+    refreshSession().then(signIn, clearSession);
+    return () => window.clearTimeout(refreshTimer.current);
+  }, [signIn, clearSession]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ status, user, signIn, signOut }),
+    [status, user, signIn, signOut],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
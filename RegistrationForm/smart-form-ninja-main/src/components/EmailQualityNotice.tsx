@@ -0,0 +1,39 @@
+import { AlertCircle, Info } from "lucide-react";
+import type { EmailQualityIssue } from "@/lib/email-quality";
+
+interface EmailQualityNoticeProps {
+  issue: EmailQualityIssue;
+  onAcceptSuggestion: (email: string) => void;
+}
+
+/** "Did you mean …?" or disposable-address note under an email field, styled as an error when it blocks sign-up. */
+const EmailQualityNotice = ({ issue, onAcceptSuggestion }: EmailQualityNoticeProps) => {
+  const Icon = issue.blocking ? AlertCircle : Info;
+
+  return (
+    <div
+      className={`flex items-center gap-1.5 text-sm animate-in slide-in-from-top-1 duration-200 ${
+        issue.blocking ? "text-destructive" : "text-muted-foreground"
+      }`}
+    >
+      <Icon className="h-4 w-4 shrink-0" />
+      {issue.suggestion ? (
+        <span>
+          Did you mean{" "}
+          <button
+            type="button"
+            onClick={() => onAcceptSuggestion(issue.suggestion!)}
+            className="text-primary font-semibold hover:underline"
+          >
+            {issue.suggestion}
+          </button>
+          ?
+        </span>
+      ) : (
+        <span>{issue.message}</span>
+      )}
+    </div>
+  );
+};
+
+export default EmailQualityNotice;
@@ -0,0 +1,27 @@
+import { HONEYPOT_FIELD } from "@/lib/bot-signals";
+
+interface HoneypotFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * An input people never see or reach with the keyboard. Scripts that fill in
+ * every field fill this one too, which gives them away.
+ */
+const HoneypotField = ({ value, onChange }: HoneypotFieldProps) => (
+  <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+    <label htmlFor={HONEYPOT_FIELD}>Website</label>
+    <input
+      id={HONEYPOT_FIELD}
+      name={HONEYPOT_FIELD}
+      type="text"
+      tabIndex={-1}
+      autoComplete="off"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  </div>
+);
+
+export default HoneypotField;
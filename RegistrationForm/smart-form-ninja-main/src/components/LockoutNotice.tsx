@@ -0,0 +1,16 @@
+import { Clock } from "lucide-react";
+import { formatCountdown } from "@/hooks/use-countdown";
+
+interface LockoutNoticeProps {
+  retryIn: number;
+}
+
+/** Shown in place of an error while the API refuses further attempts. */
+const LockoutNotice = ({ retryIn }: LockoutNoticeProps) => (
+  <div className="flex items-center justify-center gap-1.5 rounded-md bg-destructive/10 p-3 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+    <Clock className="h-4 w-4 shrink-0" />
+    <span>Too many incorrect attempts. Try again in {formatCountdown(retryIn)}.</span>
+  </div>
+);
+
+export default LockoutNotice;
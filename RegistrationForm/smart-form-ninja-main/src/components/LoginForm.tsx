@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AlertCircle, KeyRound } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { isLockoutError, useLockout } from "@/hooks/use-lockout";
+import AuthLayout from "@/components/AuthLayout";
+import LockoutNotice from "@/components/LockoutNotice";
+import PasswordInput from "@/components/PasswordInput";
+import TotpCodeInput from "@/components/TotpCodeInput";
+import { ApiError } from "@/lib/api";
+import { isMfaRequired, login, verifyMfa, type Session } from "@/lib/auth";
+import { signInWithPasskey, supportsPasskeys } from "@/lib/passkeys";
+import { loginSchema, secondFactorSchema, type LoginValues, type SecondFactorValues } from "@/lib/registration-schemas";
+
+const LoginForm = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { signIn } = useAuth();
+  const form = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: location.state?.email ?? "", password: "" },
+  });
+  const mfaForm = useForm<SecondFactorValues>({
+    resolver: zodResolver(secondFactorSchema),
+    defaultValues: { useRecoveryCode: false, code: "", recoveryCode: "" },
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  // Set by a social sign-in that still needs the second factor.
+  const [mfaToken, setMfaToken] = useState<string | null>(location.state?.mfaToken ?? null);
+  const useRecoveryCode = mfaForm.watch("useRecoveryCode");
+  const formError = form.formState.errors.root?.message;
+  const lockout = useLockout();
+
+  const completeSignIn = (session: Session) => {
+    signIn(session);
+    toast({
+      title: "Welcome back!",
+      description: `Signed in as ${session.user.email}`,
+    });
+    navigate(location.state?.from?.pathname ?? "/dashboard", { replace: true });
+  };
+
+  /** Shows `err` on the second-factor field when one is named, otherwise above the log in form. */
+  const showSignInError = (err: unknown, mfaField?: "code" | "recoveryCode") => {
+    const message = err instanceof ApiError ? err.message : "Something went wrong. Please try again.";
+    lockout.applyError(err);
+    form.clearErrors();
+    mfaForm.clearErrors();
+    // A lockout shows its own countdown instead of an error that would outlast it.
+    if (!isLockoutError(err)) {
+      if (mfaField) mfaForm.setError(mfaField, { type: "server", message });
+      else form.setError("root", { type: "server", message });
+    }
+    toast({
+      title: "Sign in failed",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const handleSubmit = async ({ email, password }: LoginValues) => {
+    form.clearErrors();
+    setIsLoading(true);
+    try {
+      const result = await login(email, password);
+      form.setValue("password", "");
+      if (isMfaRequired(result)) {
+        setMfaToken(result.mfaToken);
+        return;
+      }
+      completeSignIn(result);
+    } catch (err) {
+      form.setValue("password", "");
+      showSignInError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const leaveMfa = () => {
+    setMfaToken(null);
+    mfaForm.reset();
+  };
+
+  const handleMfaSubmit = async ({ useRecoveryCode, code, recoveryCode }: SecondFactorValues) => {
+    mfaForm.clearErrors();
+    setIsLoading(true);
+    try {
+      completeSignIn(
+        await verifyMfa(mfaToken ?? "", useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code }),
+      );
+    } catch (err) {
+      mfaForm.setValue("code", "");
+      if (err instanceof ApiError && (err.code === "mfa_expired" || err.code === "mfa_attempts_exceeded")) {
+        leaveMfa();
+        showSignInError(err);
+      } else {
+        showSignInError(err, useRecoveryCode ? "recoveryCode" : "code");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePasskeySignIn = async () => {
+    form.clearErrors();
+    setIsLoading(true);
+    try {
+      const result = await signInWithPasskey();
+      if (isMfaRequired(result)) {
+        setMfaToken(result.mfaToken);
+        return;
+      }
+      completeSignIn(result);
+    } catch (err) {
+      showSignInError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (mfaToken) {
+    return (
+      <AuthLayout>
+        <Card className="w-full max-w-md shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
+          <CardHeader className="space-y-3 text-center pb-6">
+            <CardTitle className="text-3xl font-bold">Two-factor authentication</CardTitle>
+            <CardDescription className="text-base">
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you set up two-factor authentication"
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <Form {...mfaForm}>
+              <form onSubmit={mfaForm.handleSubmit(handleMfaSubmit)} className="space-y-6" noValidate>
+                {lockout.isLockedOut && <LockoutNotice retryIn={lockout.retryIn} />}
+
+                {useRecoveryCode ? (
+                  <FormField
+                    control={mfaForm.control}
+                    name="recoveryCode"
+                    render={({ field, fieldState }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Recovery code</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            autoComplete="off"
+                            placeholder="xxxxx-xxxxx"
+                            className={`font-mono transition-all duration-200 shadow-[var(--shadow-input)] ${
+                              fieldState.error ? "border-destructive focus:ring-destructive" : ""
+                            }`}
+                          />
+                        </FormControl>
+                        {fieldState.error && (
+                          <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+                            <AlertCircle className="h-4 w-4" />
+                            <FormMessage className="font-normal" />
+                          </div>
+                        )}
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={mfaForm.control}
+                    name="code"
+                    render={({ field, fieldState }) => (
+                      <TotpCodeInput value={field.value} onChange={field.onChange} error={fieldState.error?.message} />
+                    )}
+                  />
+                )}
+
+                <Button
+                  type="submit"
+                  disabled={isLoading || lockout.isLockedOut}
+                  className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
+                >
+                  Verify
+                </Button>
+
+                <div className="flex justify-between text-xs">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      mfaForm.clearErrors();
+                      mfaForm.setValue("useRecoveryCode", !useRecoveryCode);
+                    }}
+                    className="text-primary font-semibold hover:underline"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button type="button" onClick={leaveMfa} className="text-muted-foreground hover:underline">
+                    Back to log in
+                  </button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout>
+      <Card className="w-full max-w-md shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
+        <CardHeader className="space-y-3 text-center pb-6">
+          <CardTitle className="text-3xl font-bold">Welcome back</CardTitle>
+          <CardDescription className="text-base">Log in to continue your learning journey</CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+              {lockout.isLockedOut && <LockoutNotice retryIn={lockout.retryIn} />}
+              {formError && (
+                <div className="flex items-center gap-1.5 rounded-md bg-destructive/10 p-3 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+                  <AlertCircle className="h-4 w-4" />
+                  <span>{formError}</span>
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium">Email</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="email"
+                        autoComplete="username"
+                        placeholder="example@example.com"
+                        className={`transition-all duration-200 shadow-[var(--shadow-input)] ${
+                          fieldState.error ? "border-destructive focus:ring-destructive" : ""
+                        }`}
+                      />
+                    </FormControl>
+                    {fieldState.error && (
+                      <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+                        <AlertCircle className="h-4 w-4" />
+                        <FormMessage className="font-normal" />
+                      </div>
+                    )}
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => <PasswordInput {...field} autoComplete="current-password" />}
+                />
+                <div className="text-right">
+                  <Link
+                    to="/reset-password"
+                    state={{ email: form.watch("email") }}
+                    className="text-xs text-primary font-semibold hover:underline"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isLoading || lockout.isLockedOut}
+                className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
+              >
+                Log in
+              </Button>
+
+              {supportsPasskeys() && (
+                <>
+                  <div className="relative">
+                    <div className="absolute inset-0 flex items-center">
+                      <span className="w-full border-t" />
+                    </div>
+                    <div className="relative flex justify-center text-xs uppercase">
+                      <span className="bg-card px-2 text-muted-foreground">or</span>
+                    </div>
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handlePasskeySignIn}
+                    disabled={isLoading}
+                    className="w-full py-6 hover:bg-accent/10"
+                  >
+                    <KeyRound className="mr-2 h-5 w-5" />
+                    Sign in with a passkey
+                  </Button>
+                </>
+              )}
+
+              <p className="text-center text-xs text-muted-foreground pt-4">
+                Don't have an account?{" "}
+                <Link to="/" className="text-primary font-semibold hover:underline">
+                  Sign up
+                </Link>
+              </p>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+};
+
+export default LoginForm;
@@ -1,148 +1,294 @@
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { CheckCircle2, AlertCircle, Eye, EyeOff, ArrowLeft, Apple, Facebook } from "lucide-react";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CheckCircle2, AlertCircle, ArrowLeft, Apple, Facebook, KeyRound, ShieldCheck } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
-
-interface FormData {
-  email: string;
-  otp: string;
-  password: string;
-}
-
-interface FormErrors {
-  email?: string;
-  otp?: string;
-  password?: string;
-}
+import { useAuth } from "@/hooks/use-auth";
+import { useBotSignals } from "@/hooks/use-bot-signals";
+import { useEmailStatus } from "@/hooks/use-email-status";
+import { isLockoutError } from "@/hooks/use-lockout";
+import { CODE_EXPIRED_MESSAGE, useOtpChallenge } from "@/hooks/use-otp-challenge";
+import { useProofOfWork } from "@/hooks/use-proof-of-work";
+import { useWizard, type WizardSubmit } from "@/hooks/use-wizard";
+import AuthLayout from "@/components/AuthLayout";
+import EmailQualityNotice from "@/components/EmailQualityNotice";
+import HoneypotField from "@/components/HoneypotField";
+import OtpVerification from "@/components/OtpVerification";
+import PasswordChecklist from "@/components/PasswordChecklist";
+import PasswordInput from "@/components/PasswordInput";
+import SchemaFields from "@/components/SchemaFields";
+import TotpEnrollment from "@/components/TotpEnrollment";
+import { ApiError } from "@/lib/api";
+import { offerToSavePassword } from "@/lib/credentials";
+import { checkEmailQuality } from "@/lib/email-quality";
+import { emailQualityPolicy } from "@/lib/email-quality-policy";
+import { activeValues } from "@/lib/field-rules";
+import { startOAuthSignIn, type OAuthProviderId } from "@/lib/oauth";
+import { allowsPaste, passwordFieldPolicy } from "@/lib/password-field-policy";
+import { checkPasswordBreached } from "@/lib/pwned-passwords";
+import { registerWithPasskey, supportsPasskeys } from "@/lib/passkeys";
+import { PROFILE_FORM } from "@/lib/profile-form";
+import {
+  completeRegistration,
+  resendRegistrationCode,
+  startRegistration,
+  subscribeToEmailVerified,
+  verifyRegistration,
+  type CodeSent,
+  type EmailVerified,
+} from "@/lib/registration";
+import { ACCOUNT_FIELD_RULES, signUpSchema, type ProfileDetails, type SignUpValues } from "@/lib/registration-schemas";
+import { breachedPasswordMessage, validateEmail } from "@/lib/validation";
+
+const signUpFormSchema = signUpSchema({ confirmPassword: passwordFieldPolicy.confirm });
+
+type StepId = "email" | "code" | "profile" | "password";
+type StepSubmit = WizardSubmit<SignUpValues, StepId>;
+
+/** The profile answers that apply, as the API expects them with the password or passkey. */
+const profileOf = ({ role, age, schoolName, guardianEmail }: SignUpValues): ProfileDetails =>
+  activeValues(ACCOUNT_FIELD_RULES, { role, age, schoolName, guardianEmail });
 
 const MultiStepForm = () => {
-  const [step, setStep] = useState(1);
-  const [formData, setFormData] = useState<FormData>({
-    email: "",
-    otp: "",
-    password: "",
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { signIn } = useAuth();
+  // Arriving from "Continue here" on the magic-link page skips past the code step.
+  const verifiedByLink = location.state?.registrationToken ? (location.state as EmailVerified) : null;
+  // Each step validates only its own fields, so the form is never submitted as a whole.
+  const form = useForm<SignUpValues>({
+    resolver: zodResolver(signUpFormSchema),
+    defaultValues: {
+      // The one-page form sends people here with the email it still has to verify.
+      email: verifiedByLink?.email ?? location.state?.email ?? "",
+      otp: "",
+      role: "",
+      age: "",
+      schoolName: "",
+      guardianEmail: "",
+      password: "",
+      confirmPassword: "",
+    },
   });
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [showPassword, setShowPassword] = useState(false);
+  const formData = form.watch();
+  const { errors } = form.formState;
   const [isSubmitted, setIsSubmitted] = useState(false);
-  const [passwordStrength, setPasswordStrength] = useState(0);
-  const [passwordRequirements, setPasswordRequirements] = useState({
-    minLength: false,
-    hasNumber: false,
-    hasSymbol: false,
-  });
-
-  const validateEmail = (email: string): string | undefined => {
-    if (!email.trim()) return "Email is required";
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) return "Please enter a valid email address";
-    return undefined;
+  const [isLoading, setIsLoading] = useState(false);
+  const [isEnrollingMfa, setIsEnrollingMfa] = useState(false);
+  const [registrationToken, setRegistrationToken] = useState<string | null>(
+    verifiedByLink?.registrationToken ?? null,
+  );
+  const challenge = useOtpChallenge();
+  const botSignals = useBotSignals();
+  const emailIssue = validateEmail(formData.email) ? undefined : checkEmailQuality(formData.email, emailQualityPolicy);
+
+  const showRequestError = (field: keyof SignUpValues, err: unknown) => {
+    const message = err instanceof ApiError ? err.message : "Something went wrong. Please try again.";
+    form.clearErrors();
+    // A lockout shows its own countdown instead of a field error that would outlast it.
+    if (!isLockoutError(err)) form.setError(field, { type: "server", message });
+    toast({
+      title: "Something went wrong",
+      description: message,
+      variant: "destructive",
+    });
   };
 
-  const validateOTP = (otp: string): string | undefined => {
-    if (!otp) return "Verification code is required";
-    if (otp.length !== 5) return "Code must be 5 digits";
-    return undefined;
+  const applyCodeSent = (result: CodeSent) => {
+    challenge.applyCodeSent(result);
+    form.setValue("otp", "");
   };
 
-  const validatePassword = (password: string): string | undefined => {
-    if (!password) return "Password is required";
-    if (password.length < 8) return "Password must be at least 8 characters";
-    if (!/[0-9]/.test(password)) return "Password must contain a number";
-    if (!/[!@#$%^&*]/.test(password)) return "Password must contain a symbol";
-    return undefined;
+  const submitEmail: StepSubmit = async ({ email }) => {
+    if (emailIssue?.blocking) {
+      toast({
+        title: "Check your email address",
+        description: emailIssue.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    form.clearErrors();
+    try {
+      applyCodeSent(await startRegistration(email, await proofOfWork.takeSolution(), await botSignals.read()));
+      toast({
+        title: "Code Sent!",
+        description: `We've sent a verification code to ${email}`,
+      });
+    } catch (err) {
+      showRequestError("email", err);
+      return false;
+    }
   };
 
-  const calculatePasswordStrength = (password: string) => {
-    const requirements = {
-      minLength: password.length >= 8,
-      hasNumber: /[0-9]/.test(password),
-      hasSymbol: /[!@#$%^&*]/.test(password),
-    };
-    setPasswordRequirements(requirements);
-
-    let strength = 0;
-    if (requirements.minLength) strength += 40;
-    if (requirements.hasNumber) strength += 30;
-    if (requirements.hasSymbol) strength += 30;
-    setPasswordStrength(strength);
+  const submitCode: StepSubmit = async ({ email, otp }) => {
+    if (challenge.isCodeExpired) {
+      form.setError("otp", { type: "expired", message: CODE_EXPIRED_MESSAGE });
+      toast({
+        title: "Validation Error",
+        description: CODE_EXPIRED_MESSAGE,
+        variant: "destructive",
+      });
+      return false;
+    }
+    form.clearErrors();
+    try {
+      const { registrationToken } = await verifyRegistration(email, otp);
+      setRegistrationToken(registrationToken);
+    } catch (err) {
+      challenge.applyError(err);
+      form.setValue("otp", "");
+      showRequestError("otp", err);
+      return false;
+    }
   };
 
-  useEffect(() => {
-    if (formData.password) {
-      calculatePasswordStrength(formData.password);
+  const submitPassword: StepSubmit = async (values) => {
+    const { email, password } = values;
+    form.clearErrors();
+    try {
+      // An unavailable lookup resolves to null and does not hold the user up.
+      const breachCount = await checkPasswordBreached(password);
+      if (breachCount) {
+        const message = breachedPasswordMessage(breachCount);
+        form.setError("password", { type: "server", message });
+        toast({
+          title: "Choose a different password",
+          description: message,
+          variant: "destructive",
+        });
+        return false;
+      }
+      signIn(await completeRegistration(registrationToken ?? "", password, profileOf(values)));
+      // Not awaited: the browser's save prompt shouldn't hold up the success screen.
+      offerToSavePassword(email, password);
+      setIsSubmitted(true);
+      toast({
+        title: "Success!",
+        description: "Your account has been created successfully.",
+      });
+    } catch (err) {
+      // Dropping the token lets the password step's guard send the user back to the start.
+      if (err instanceof ApiError && err.code === "registration_expired") setRegistrationToken(null);
+      showRequestError("password", err);
+      return false;
     }
-  }, [formData.password]);
+  };
 
-  const handleEmailSubmit = () => {
-    const emailError = validateEmail(formData.email);
-    if (emailError) {
-      setErrors({ email: emailError });
+  const wizard = useWizard<SignUpValues, StepId>({
+    form,
+    initialStep: verifiedByLink ? "profile" : "email",
+    steps: [
+      { id: "email", fields: ["email"], submit: submitEmail },
+      // The code is used up once verified, so Back from later steps can't return to it or the email.
+      { id: "code", fields: ["otp"], submit: submitCode, done: () => Boolean(registrationToken) },
+      {
+        id: "profile",
+        fields: ["role", "age", "schoolName", "guardianEmail"],
+        guard: () => (registrationToken ? true : "email"),
+      },
+      {
+        id: "password",
+        fields: ["password", "confirmPassword"],
+        guard: () => (registrationToken ? true : "email"),
+        submit: submitPassword,
+      },
+    ],
+    onInvalid: (message) => {
       toast({
         title: "Validation Error",
-        description: emailError,
+        description: message,
         variant: "destructive",
       });
-      return;
-    }
-    setErrors({});
-    setStep(2);
-    toast({
-      title: "Code Sent!",
-      description: `We've sent a verification code to ${formData.email}`,
+    },
+  });
+  const isBusy = isLoading || wizard.isSubmitting;
+  const emailStatus = useEmailStatus(wizard.stepId === "email" ? formData.email : "");
+  // Solved while the user types their email, ready for "Continue with email".
+  const proofOfWork = useProofOfWork(wizard.stepId === "email");
+  const isEmailRegistered = emailStatus.status === "registered";
+  const { stepId, goTo } = wizard;
+
+  // The magic link may be opened in another tab; pick up its result while waiting for the code.
+  useEffect(() => {
+    if (stepId !== "code") return;
+    return subscribeToEmailVerified((verified) => {
+      if (verified.email !== formData.email.trim().toLowerCase()) return;
+      setRegistrationToken(verified.registrationToken);
+      form.clearErrors();
+      goTo("profile");
+      toast({
+        title: "Email verified!",
+        description: "Your email was confirmed from the link we sent you.",
+      });
     });
-  };
+  }, [stepId, formData.email, form, goTo]);
 
-  const handleOTPSubmit = () => {
-    const otpError = validateOTP(formData.otp);
-    if (otpError) {
-      setErrors({ otp: otpError });
+  const handleResendCode = async () => {
+    form.clearErrors();
+    setIsLoading(true);
+    try {
+      applyCodeSent(await resendRegistrationCode(formData.email));
       toast({
-        title: "Validation Error",
-        description: otpError,
-        variant: "destructive",
+        title: "Code Resent!",
+        description: `We've sent a new verification code to ${formData.email}`,
       });
-      return;
+    } catch (err) {
+      challenge.applyError(err);
+      showRequestError("otp", err);
+    } finally {
+      setIsLoading(false);
     }
-    setErrors({});
-    setStep(3);
   };
 
-  const handlePasswordSubmit = () => {
-    const passwordError = validatePassword(formData.password);
-    if (passwordError) {
-      setErrors({ password: passwordError });
+  const handlePasskeySubmit = async () => {
+    form.clearErrors();
+    setIsLoading(true);
+    try {
+      signIn(await registerWithPasskey(registrationToken ?? "", profileOf(form.getValues())));
+      setIsSubmitted(true);
       toast({
-        title: "Validation Error",
-        description: passwordError,
-        variant: "destructive",
+        title: "Success!",
+        description: "Your account has been created with a passkey.",
       });
-      return;
+    } catch (err) {
+      if (err instanceof ApiError && err.code === "registration_expired") setRegistrationToken(null);
+      showRequestError("password", err);
+    } finally {
+      setIsLoading(false);
     }
-    setErrors({});
-    setIsSubmitted(true);
-    toast({
-      title: "Success!",
-      description: "Your account has been created successfully.",
-    });
   };
 
   const handleBack = () => {
-    setErrors({});
-    setStep((prev) => prev - 1);
+    form.clearErrors();
+    wizard.back();
   };
 
-  const handleSocialLogin = (provider: string) => {
-    toast({
-      title: `${provider} Login`,
-      description: `${provider} login would be integrated here.`,
-    });
+  const handleSocialLogin = (provider: OAuthProviderId) => {
+    startOAuthSignIn(provider);
   };
 
+  if (isSubmitted && isEnrollingMfa) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-accent/5 to-primary/10">
+        <Card className="w-full max-w-md text-center shadow-[var(--shadow-form)] border-primary/20 animate-in fade-in zoom-in duration-500">
+          <CardHeader className="space-y-3 pb-6">
+            <CardTitle className="text-3xl font-bold">Set up two-factor authentication</CardTitle>
+            <CardDescription className="text-base">Add a second step to protect your account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TotpEnrollment onComplete={() => navigate("/dashboard")} onCancel={() => setIsEnrollingMfa(false)} />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (isSubmitted) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-accent/5 to-primary/10">
@@ -160,16 +306,15 @@ const MultiStepForm = () => {
               Welcome to Classroom! You can now start your learning journey.
             </p>
             <Button
-              onClick={() => {
-                setIsSubmitted(false);
-                setStep(1);
-                setFormData({ email: "", otp: "", password: "" });
-                setErrors({});
-              }}
+              onClick={() => navigate("/dashboard")}
               className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-opacity text-primary-foreground"
             >
               Continue
             </Button>
+            <Button variant="outline" onClick={() => setIsEnrollingMfa(true)} className="w-full mt-3 hover:bg-accent/10">
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Set up two-factor authentication
+            </Button>
           </CardContent>
         </Card>
       </div>
@@ -177,25 +322,11 @@ const MultiStepForm = () => {
   }
 
   return (
-    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-accent/5 to-primary/10 relative overflow-hidden">
-      {/* Decorative dots */}
-      <div className="absolute inset-0 opacity-30">
-        {[...Array(50)].map((_, i) => (
-          <div
-            key={i}
-            className="absolute w-1 h-1 bg-primary rounded-full"
-            style={{
-              left: `${Math.random() * 100}%`,
-              top: `${Math.random() * 100}%`,
-            }}
-          />
-        ))}
-      </div>
-
+    <AuthLayout>
       <Card className="w-full max-w-md shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
         <CardHeader className="space-y-3 text-center pb-6">
           <div className="flex items-center justify-between">
-            {step > 1 && (
+            {!wizard.isFirst && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -207,11 +338,11 @@ const MultiStepForm = () => {
             )}
             <div className="flex-1"></div>
             <span className="text-sm text-muted-foreground font-medium">
-              {step} / 3
+              {wizard.position} / {wizard.total}
             </span>
           </div>
 
-          {step === 1 && (
+          {wizard.stepId === "email" && (
             <>
               <CardTitle className="text-3xl font-bold">
                 Welcome to Classroom
@@ -221,17 +352,24 @@ const MultiStepForm = () => {
               </CardDescription>
             </>
           )}
-          {step === 2 && (
+          {wizard.stepId === "code" && (
             <>
               <CardTitle className="text-3xl font-bold">
                 Verify your email
               </CardTitle>
               <CardDescription className="text-base">
-                We just sent a 5-digit code to {formData.email}, enter it below:
+                We just sent a 5-digit code to {formData.email}. Enter it below, or open the link in the
+                email on this device:
               </CardDescription>
             </>
           )}
-          {step === 3 && (
+          {wizard.stepId === "profile" && (
+            <>
+              <CardTitle className="text-3xl font-bold">Tell us about yourself</CardTitle>
+              <CardDescription className="text-base">So we can set up the right classroom for you</CardDescription>
+            </>
+          )}
+          {wizard.stepId === "password" && (
             <>
               <CardTitle className="text-3xl font-bold">
                 Create your password
@@ -244,300 +382,279 @@ const MultiStepForm = () => {
         </CardHeader>
 
         <CardContent className="space-y-6">
-          {/* Step 1: Email */}
-          {step === 1 && (
-            <div className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="email" className="text-sm font-medium">
-                  Email
-                </Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="example@example.com"
-                  value={formData.email}
-                  onChange={(e) =>
-                    setFormData((prev) => ({ ...prev, email: e.target.value }))
-                  }
-                  className={`transition-all duration-200 shadow-[var(--shadow-input)] ${
-                    errors.email ? "border-destructive focus:ring-destructive" : ""
-                  }`}
+          <Form {...form}>
+            {/* Step 1: Email */}
+            {wizard.stepId === "email" && (
+              <div className="space-y-6">
+                <HoneypotField value={botSignals.honeypot} onChange={botSignals.setHoneypot} />
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium">Email</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="email"
+                          placeholder="example@example.com"
+                          className={`transition-all duration-200 shadow-[var(--shadow-input)] ${
+                            errors.email || isEmailRegistered || emailIssue?.blocking
+                              ? "border-destructive focus:ring-destructive"
+                              : ""
+                          }`}
+                        />
+                      </FormControl>
+                      {errors.email && (
+                        <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+                          <AlertCircle className="h-4 w-4" />
+                          <FormMessage className="font-normal" />
+                        </div>
+                      )}
+                      {!errors.email && !isEmailRegistered && emailIssue && (
+                        <EmailQualityNotice
+                          issue={emailIssue}
+                          onAcceptSuggestion={(email) => form.setValue("email", email)}
+                        />
+                      )}
+                      {!errors.email && isEmailRegistered && (
+                        <div className="rounded-md bg-destructive/10 p-3 text-sm animate-in slide-in-from-top-1 duration-200">
+                          <div className="flex items-center gap-1.5 text-destructive">
+                            <AlertCircle className="h-4 w-4" />
+                            <span>An account with this email already exists.</span>
+                          </div>
+                          <div className="mt-2 flex gap-4 pl-5">
+                            <Link
+                              to="/login"
+                              state={{ email: formData.email }}
+                              className="text-primary font-semibold hover:underline"
+                            >
+                              Log in instead
+                            </Link>
+                            <Link
+                              to="/reset-password"
+                              state={{ email: formData.email }}
+                              className="text-primary font-semibold hover:underline"
+                            >
+                              Reset password
+                            </Link>
+                          </div>
+                        </div>
+                      )}
+                    </FormItem>
+                  )}
                 />
-                {errors.email && (
-                  <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
-                    <AlertCircle className="h-4 w-4" />
-                    <span>{errors.email}</span>
-                  </div>
-                )}
-              </div>
 
-              <Button
-                onClick={handleEmailSubmit}
-                className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
-              >
-                Continue with email
-              </Button>
+                <Button
+                  onClick={wizard.next}
+                  disabled={isBusy || isEmailRegistered}
+                  className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
+                >
+                  Continue with email
+                </Button>
 
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <span className="w-full border-t" />
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t" />
+                  </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-card px-2 text-muted-foreground">or</span>
+                  </div>
                 </div>
-                <div className="relative flex justify-center text-xs uppercase">
-                  <span className="bg-card px-2 text-muted-foreground">or</span>
+
+                <div className="space-y-3">
+                  <Button
+                    variant="outline"
+                    className="w-full py-6 hover:bg-accent/10"
+                    onClick={() => handleSocialLogin("apple")}
+                  >
+                    <Apple className="mr-2 h-5 w-5" />
+                    Continue with Apple
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full py-6 hover:bg-accent/10"
+                    onClick={() => handleSocialLogin("facebook")}
+                  >
+                    <Facebook className="mr-2 h-5 w-5" />
+                    Continue with Facebook
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full py-6 hover:bg-accent/10"
+                    onClick={() => handleSocialLogin("google")}
+                  >
+                    <svg className="mr-2 h-5 w-5" viewBox="0 0 24 24">
+                      <path
+                        fill="currentColor"
+                        d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                      />
+                      <path
+                        fill="currentColor"
+                        d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                      />
+                      <path
+                        fill="currentColor"
+                        d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                      />
+                      <path
+                        fill="currentColor"
+                        d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                      />
+                    </svg>
+                    Continue with Google
+                  </Button>
                 </div>
-              </div>
 
-              <div className="space-y-3">
-                <Button
-                  variant="outline"
-                  className="w-full py-6 hover:bg-accent/10"
-                  onClick={() => handleSocialLogin("Apple")}
-                >
-                  <Apple className="mr-2 h-5 w-5" />
-                  Continue with Apple
-                </Button>
-                <Button
-                  variant="outline"
-                  className="w-full py-6 hover:bg-accent/10"
-                  onClick={() => handleSocialLogin("Facebook")}
-                >
-                  <Facebook className="mr-2 h-5 w-5" />
-                  Continue with Facebook
-                </Button>
-                <Button
-                  variant="outline"
-                  className="w-full py-6 hover:bg-accent/10"
-                  onClick={() => handleSocialLogin("Google")}
-                >
-                  <svg className="mr-2 h-5 w-5" viewBox="0 0 24 24">
-                    <path
-                      fill="currentColor"
-                      d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                    />
-                  </svg>
-                  Continue with Google
-                </Button>
+                <p className="text-center text-xs text-muted-foreground pt-4">
+                  Already have an account?{" "}
+                  <Link
+                    to="/login"
+                    state={{ email: formData.email }}
+                    className="text-primary font-semibold hover:underline"
+                  >
+                    Log in
+                  </Link>
+                </p>
+
+                <p className="text-center text-xs text-muted-foreground">
+                  By using Classroom, you agree to the{" "}
+                  <button className="text-primary hover:underline">Terms</button> and{" "}
+                  <button className="text-primary hover:underline">Privacy Policy</button>.
+                </p>
               </div>
+            )}
 
-              <p className="text-center text-xs text-muted-foreground pt-4">
-                Already have an account?{" "}
-                <button className="text-primary font-semibold hover:underline">
-                  Log in
-                </button>
-              </p>
-
-              <p className="text-center text-xs text-muted-foreground">
-                By using Classroom, you agree to the{" "}
-                <button className="text-primary hover:underline">Terms</button> and{" "}
-                <button className="text-primary hover:underline">Privacy Policy</button>.
-              </p>
-            </div>
-          )}
+            {/* Step 2: OTP Verification */}
+            {wizard.stepId === "code" && (
+              <div className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="otp"
+                  render={({ field, fieldState }) => (
+                    <OtpVerification
+                      value={field.value}
+                      onChange={field.onChange}
+                      error={fieldState.error?.message}
+                      challenge={challenge}
+                      isLoading={isBusy}
+                      submitLabel="Verify email"
+                      onSubmit={wizard.next}
+                      onResend={handleResendCode}
+                    />
+                  )}
+                />
 
-          {/* Step 2: OTP Verification */}
-          {step === 2 && (
-            <div className="space-y-6">
-              <div className="space-y-4">
-                <Label htmlFor="otp" className="text-sm font-medium text-center block">
-                  Code
-                </Label>
-                <div className="flex justify-center">
-                  <InputOTP
-                    maxLength={5}
-                    value={formData.otp}
-                    onChange={(value) =>
-                      setFormData((prev) => ({ ...prev, otp: value }))
-                    }
+                <div className="text-center space-y-2">
+                  <p className="text-sm text-muted-foreground">Wrong email?</p>
+                  <button
+                    onClick={() => wizard.goTo("email")}
+                    className="text-sm text-primary font-semibold hover:underline"
                   >
-                    <InputOTPGroup>
-                      <InputOTPSlot index={0} />
-                      <InputOTPSlot index={1} />
-                      <InputOTPSlot index={2} />
-                      <InputOTPSlot index={3} />
-                      <InputOTPSlot index={4} />
-                    </InputOTPGroup>
-                  </InputOTP>
+                    Send to different email
+                  </button>
                 </div>
-                {errors.otp && (
-                  <div className="flex items-center justify-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
-                    <AlertCircle className="h-4 w-4" />
-                    <span>{errors.otp}</span>
-                  </div>
-                )}
               </div>
+            )}
 
-              <Button
-                onClick={handleOTPSubmit}
-                className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
-              >
-                Verify email
-              </Button>
+            {/* Step 3: Profile */}
+            {wizard.stepId === "profile" && (
+              <div className="space-y-6">
+                <SchemaFields schema={PROFILE_FORM} />
 
-              <div className="text-center space-y-2">
-                <p className="text-sm text-muted-foreground">Wrong email?</p>
-                <button
-                  onClick={() => setStep(1)}
-                  className="text-sm text-primary font-semibold hover:underline"
+                <Button
+                  onClick={wizard.next}
+                  disabled={isBusy}
+                  className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
                 >
-                  Send to different email
-                </button>
+                  Continue
+                </Button>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Step 3: Password */}
-          {step === 3 && (
-            <div className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="password" className="text-sm font-medium">
-                  Password
-                </Label>
-                <div className="relative">
-                  <Input
-                    id="password"
-                    type={showPassword ? "text" : "password"}
-                    placeholder="Enter password"
-                    value={formData.password}
-                    onChange={(e) =>
-                      setFormData((prev) => ({ ...prev, password: e.target.value }))
-                    }
-                    className={`pr-10 transition-all duration-200 shadow-[var(--shadow-input)] ${
-                      errors.password ? "border-destructive focus:ring-destructive" : ""
-                    }`}
+            {/* Step 4: Password */}
+            {wizard.stepId === "password" && (
+              <div className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <PasswordInput
+                      {...field}
+                      allowPaste={allowsPaste("password")}
+                      onSuggest={(password) => {
+                        field.onChange(password);
+                        form.setValue("confirmPassword", password);
+                      }}
+                      username={formData.email}
+                    />
+                  )}
+                />
+
+                {passwordFieldPolicy.confirm && (
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <PasswordInput
+                        label="Confirm password"
+                        placeholder="Re-enter password"
+                        {...field}
+                        allowPaste={allowsPaste("confirmation")}
+                      />
+                    )}
                   />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                  >
-                    {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                  </button>
-                </div>
-                {errors.password && (
-                  <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
-                    <AlertCircle className="h-4 w-4" />
-                    <span>{errors.password}</span>
-                  </div>
                 )}
-              </div>
 
-              {formData.password && (
-                <div className="space-y-3 animate-in slide-in-from-top-1 duration-200">
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm">
-                      <div
-                        className={`w-4 h-4 rounded-full flex items-center justify-center ${
-                          passwordRequirements.minLength
-                            ? "bg-success"
-                            : "bg-muted border border-muted-foreground"
-                        }`}
-                      >
-                        {passwordRequirements.minLength && (
-                          <CheckCircle2 className="h-3 w-3 text-success-foreground" />
-                        )}
-                      </div>
-                      <span
-                        className={
-                          passwordRequirements.minLength
-                            ? "text-success"
-                            : "text-muted-foreground"
-                        }
-                      >
-                        8 characters minimum
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2 text-sm">
-                      <div
-                        className={`w-4 h-4 rounded-full flex items-center justify-center ${
-                          passwordRequirements.hasNumber
-                            ? "bg-success"
-                            : "bg-muted border border-muted-foreground"
-                        }`}
-                      >
-                        {passwordRequirements.hasNumber && (
-                          <CheckCircle2 className="h-3 w-3 text-success-foreground" />
-                        )}
+                <PasswordChecklist
+                  password={formData.password}
+                  userInputs={[formData.email]}
+                  confirmation={passwordFieldPolicy.confirm ? formData.confirmPassword : undefined}
+                />
+
+                <Button
+                  onClick={wizard.next}
+                  disabled={isBusy}
+                  className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
+                >
+                  Continue
+                </Button>
+
+                {supportsPasskeys() && (
+                  <>
+                    <div className="relative">
+                      <div className="absolute inset-0 flex items-center">
+                        <span className="w-full border-t" />
                       </div>
-                      <span
-                        className={
-                          passwordRequirements.hasNumber
-                            ? "text-success"
-                            : "text-muted-foreground"
-                        }
-                      >
-                        a number
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2 text-sm">
-                      <div
-                        className={`w-4 h-4 rounded-full flex items-center justify-center ${
-                          passwordRequirements.hasSymbol
-                            ? "bg-success"
-                            : "bg-muted border border-muted-foreground"
-                        }`}
-                      >
-                        {passwordRequirements.hasSymbol && (
-                          <CheckCircle2 className="h-3 w-3 text-success-foreground" />
-                        )}
+                      <div className="relative flex justify-center text-xs uppercase">
+                        <span className="bg-card px-2 text-muted-foreground">or</span>
                       </div>
-                      <span
-                        className={
-                          passwordRequirements.hasSymbol
-                            ? "text-success"
-                            : "text-muted-foreground"
-                        }
-                      >
-                        a symbol
-                      </span>
                     </div>
-                  </div>
-
-                  {passwordStrength > 0 && (
-                    <div className="h-2 bg-secondary rounded-full overflow-hidden">
-                      <div
-                        className={`h-full transition-all duration-300 ${
-                          passwordStrength < 40
-                            ? "bg-destructive"
-                            : passwordStrength < 80
-                            ? "bg-yellow-500"
-                            : "bg-success"
-                        }`}
-                        style={{ width: `${passwordStrength}%` }}
-                      />
-                    </div>
-                  )}
-                </div>
-              )}
 
-              <Button
-                onClick={handlePasswordSubmit}
-                className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
-              >
-                Continue
-              </Button>
+                    <Button
+                      variant="outline"
+                      onClick={handlePasskeySubmit}
+                      disabled={isBusy}
+                      className="w-full py-6 hover:bg-accent/10"
+                    >
+                      <KeyRound className="mr-2 h-5 w-5" />
+                      Use a passkey instead
+                    </Button>
+                  </>
+                )}
 
-              <p className="text-center text-xs text-muted-foreground">
-                By using Classroom, you agree to the{" "}
-                <button className="text-primary hover:underline">Terms</button> and{" "}
-                <button className="text-primary hover:underline">Privacy Policy</button>.
-              </p>
-            </div>
-          )}
+                <p className="text-center text-xs text-muted-foreground">
+                  By using Classroom, you agree to the{" "}
+                  <button className="text-primary hover:underline">Terms</button> and{" "}
+                  <button className="text-primary hover:underline">Privacy Policy</button>.
+                </p>
+              </div>
+            )}
+          </Form>
         </CardContent>
       </Card>
-    </div>
+    </AuthLayout>
   );
 };
 
@@ -0,0 +1,110 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { AlertCircle } from "lucide-react";
+import LockoutNotice from "@/components/LockoutNotice";
+import { formatCountdown } from "@/hooks/use-countdown";
+import { CODE_EXPIRED_MESSAGE, type OtpChallenge } from "@/hooks/use-otp-challenge";
+import { OTP_LENGTH } from "@/lib/validation";
+
+interface OtpVerificationProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  challenge: OtpChallenge;
+  isLoading: boolean;
+  submitLabel: string;
+  onSubmit: () => void;
+  onResend: () => void;
+}
+
+const OtpVerification = ({
+  value,
+  onChange,
+  error,
+  challenge,
+  isLoading,
+  submitLabel,
+  onSubmit,
+  onResend,
+}: OtpVerificationProps) => {
+  const {
+    attemptsRemaining,
+    codeExpiresAt,
+    codeExpiresIn,
+    isCodeExpired,
+    isLockedOut,
+    lockoutRetryIn,
+    resendCooldown,
+    resendsRemaining,
+  } = challenge;
+
+  return (
+    <>
+      <div className="space-y-4">
+        <Label htmlFor="otp" className="text-sm font-medium text-center block">
+          Code
+        </Label>
+        <div className="flex justify-center">
+          <InputOTP id="otp" maxLength={OTP_LENGTH} value={value} onChange={onChange}>
+            <InputOTPGroup>
+              {[...Array(OTP_LENGTH)].map((_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        {isLockedOut && <LockoutNotice retryIn={lockoutRetryIn} />}
+        {error && (
+          <div className="flex items-center justify-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+        {isCodeExpired ? (
+          <div className="flex flex-col items-center gap-2 animate-in slide-in-from-top-1 duration-200">
+            {error !== CODE_EXPIRED_MESSAGE && <p className="text-sm text-muted-foreground">Your code has expired.</p>}
+            <Button variant="outline" size="sm" onClick={onResend} disabled={isLoading || !challenge.canResend}>
+              Send a new code
+            </Button>
+          </div>
+        ) : (
+          codeExpiresAt !== null && (
+            <p className="text-center text-xs text-muted-foreground">
+              Code expires in {formatCountdown(codeExpiresIn)}
+            </p>
+          )
+        )}
+        {attemptsRemaining !== null && attemptsRemaining > 0 && (
+          <p className="text-center text-xs text-muted-foreground">
+            {attemptsRemaining} {attemptsRemaining === 1 ? "attempt" : "attempts"} remaining
+          </p>
+        )}
+      </div>
+
+      <Button
+        onClick={onSubmit}
+        disabled={isLoading || isLockedOut}
+        className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
+      >
+        {submitLabel}
+      </Button>
+
+      <div className="text-center space-y-2">
+        <p className="text-sm text-muted-foreground">Didn't get a code?</p>
+        <button
+          onClick={onResend}
+          disabled={isLoading || !challenge.canResend}
+          className="text-sm text-primary font-semibold hover:underline disabled:text-muted-foreground disabled:no-underline disabled:cursor-not-allowed"
+        >
+          {resendCooldown > 0 ? `Resend code in ${formatCountdown(resendCooldown)}` : "Resend code"}
+        </button>
+        {resendsRemaining === 0 && (
+          <p className="text-xs text-muted-foreground">You've reached the limit for new codes. Please try again later.</p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default OtpVerification;
@@ -0,0 +1,49 @@
+import { CheckCircle2 } from "lucide-react";
+import PasswordStrengthMeter from "@/components/PasswordStrengthMeter";
+import { evaluatePasswordPolicy } from "@/lib/password-policy";
+
+interface PasswordChecklistProps {
+  password: string;
+  /** Passed to the strength estimate so passwords built from the user's own details score low. */
+  userInputs?: string[];
+  /** The confirm field's value, when the form asks for the password twice. Adds a "passwords match" item. */
+  confirmation?: string;
+}
+
+/** Live requirement checklist and strength meter shown under a new-password field. */
+const PasswordChecklist = ({ password, userInputs, confirmation }: PasswordChecklistProps) => {
+  if (!password) return null;
+
+  const rules = evaluatePasswordPolicy(password).filter((rule) => rule.showWhenMet || !rule.met);
+  const items: { id: string; met: boolean; text: string }[] = rules.map(({ id, label, message, met, showWhenMet }) => ({
+    id,
+    met,
+    text: met || showWhenMet ? label : message,
+  }));
+  if (confirmation !== undefined) {
+    items.push({ id: "confirmation", met: confirmation === password, text: "both passwords match" });
+  }
+
+  return (
+    <div className="space-y-3 animate-in slide-in-from-top-1 duration-200">
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center gap-2 text-sm">
+            <div
+              className={`w-4 h-4 rounded-full flex items-center justify-center ${
+                item.met ? "bg-success" : "bg-muted border border-muted-foreground"
+              }`}
+            >
+              {item.met && <CheckCircle2 className="h-3 w-3 text-success-foreground" />}
+            </div>
+            <span className={item.met ? "text-success" : "text-muted-foreground"}>{item.text}</span>
+          </div>
+        ))}
+      </div>
+
+      <PasswordStrengthMeter password={password} userInputs={userInputs} />
+    </div>
+  );
+};
+
+export default PasswordChecklist;
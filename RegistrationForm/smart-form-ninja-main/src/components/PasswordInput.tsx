@@ -0,0 +1,175 @@
+import { forwardRef, useState, type ClipboardEvent, type DragEvent, type KeyboardEvent } from "react";
+import { FormControl, FormItem, FormLabel, FormMessage, useFormField } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, ArrowBigUp, Check, Copy, Eye, EyeOff, Info, Sparkles } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { generatePassword } from "@/lib/password-generator";
+
+/**
+ * Takes the `field` a `FormField` renders with, so react-hook-form tracks
+ * focus, touched state and errors for it like any other field.
+ */
+interface PasswordInputProps {
+  label?: string;
+  name: string;
+  value: string;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+  placeholder?: string;
+  autoComplete?: "current-password" | "new-password";
+  /** When false, pasting and dropping text into the field are blocked with a note explaining why. */
+  allowPaste?: boolean;
+  /** Adds a "Suggest a strong password" button; called with the generated password. */
+  onSuggest?: (password: string) => void;
+  /**
+   * The account's email, rendered as a hidden username field so password
+   * managers save the new password against the right account.
+   */
+  username?: string;
+}
+
+const PasswordInput = forwardRef<HTMLInputElement, PasswordInputProps>(
+  (
+    {
+      label = "Password",
+      name,
+      value,
+      onChange,
+      onBlur,
+      placeholder = "Enter password",
+      autoComplete = "new-password",
+      allowPaste = true,
+      onSuggest,
+      username,
+    },
+    ref,
+  ) => {
+    const { error } = useFormField();
+    const [showPassword, setShowPassword] = useState(false);
+    const [capsLockOn, setCapsLockOn] = useState(false);
+    const [pasteBlocked, setPasteBlocked] = useState(false);
+    const [suggestion, setSuggestion] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    // Once the user edits the suggested password it's theirs, so stop showing it.
+    const showSuggestion = suggestion !== null && suggestion === value;
+
+    const updateCapsLock = (e: KeyboardEvent<HTMLInputElement>) => setCapsLockOn(e.getModifierState("CapsLock"));
+
+    const blockPaste = (e: ClipboardEvent<HTMLInputElement> | DragEvent<HTMLInputElement>) => {
+      if (allowPaste) return;
+      e.preventDefault();
+      setPasteBlocked(true);
+    };
+
+    const handleSuggest = () => {
+      const password = generatePassword();
+      setSuggestion(password);
+      setCopied(false);
+      setShowPassword(true);
+      onSuggest?.(password);
+    };
+
+    const handleCopy = async () => {
+      try {
+        await navigator.clipboard.writeText(value);
+        setCopied(true);
+        toast({ title: "Password copied", description: "Keep it somewhere safe, like a password manager." });
+      } catch {
+        toast({
+          title: "Couldn't copy",
+          description: "Your browser blocked clipboard access. Select the password and copy it instead.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    return (
+      <FormItem>
+        <FormLabel className="text-sm font-medium">{label}</FormLabel>
+        {username !== undefined && (
+          <input type="email" autoComplete="username" value={username} readOnly hidden aria-hidden="true" />
+        )}
+        <div className="relative">
+          <FormControl>
+            <Input
+              ref={ref}
+              name={name}
+              type={showPassword ? "text" : "password"}
+              autoComplete={autoComplete}
+              placeholder={placeholder}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              onKeyDown={updateCapsLock}
+              onKeyUp={updateCapsLock}
+              onBlur={() => {
+                setCapsLockOn(false);
+                onBlur();
+              }}
+              onPaste={blockPaste}
+              onDrop={blockPaste}
+              className={`${onSuggest ? "pr-20" : "pr-10"} transition-all duration-200 shadow-[var(--shadow-input)] ${
+                error ? "border-destructive focus:ring-destructive" : ""
+              }`}
+            />
+          </FormControl>
+          <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-2">
+            {onSuggest && (
+              <button
+                type="button"
+                onClick={handleSuggest}
+                title="Suggest a strong password"
+                aria-label="Suggest a strong password"
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Sparkles className="h-5 w-5" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+            </button>
+          </div>
+        </div>
+        {showSuggestion && (
+          <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-3 py-2 text-sm animate-in slide-in-from-top-1 duration-200">
+            <span className="text-muted-foreground">
+              Suggested password. Copy it or let your browser save it when you continue.
+            </span>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="flex shrink-0 items-center gap-1 text-primary font-semibold hover:underline"
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+            <AlertCircle className="h-4 w-4" />
+            <FormMessage className="font-normal" />
+          </div>
+        )}
+        {capsLockOn && (
+          <div className="flex items-center gap-1.5 text-yellow-600 text-sm animate-in slide-in-from-top-1 duration-200">
+            <ArrowBigUp className="h-4 w-4 shrink-0" />
+            <span>Caps Lock is on</span>
+          </div>
+        )}
+        {pasteBlocked && (
+          <div className="flex items-center gap-1.5 text-muted-foreground text-sm animate-in slide-in-from-top-1 duration-200">
+            <Info className="h-4 w-4 shrink-0" />
+            <span>Pasting is turned off for this field. Please type your password.</span>
+          </div>
+        )}
+      </FormItem>
+    );
+  },
+);
+PasswordInput.displayName = "PasswordInput";
+
+export default PasswordInput;
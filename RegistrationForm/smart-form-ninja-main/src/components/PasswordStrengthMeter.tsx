@@ -0,0 +1,49 @@
+import { AlertTriangle } from "lucide-react";
+import { estimatePasswordStrength, PASSWORD_SCORE_LABELS } from "@/lib/password-strength";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  /** Things an attacker could know about the user, such as their name and email. */
+  userInputs?: string[];
+}
+
+const BAR_COLORS = ["bg-destructive", "bg-destructive", "bg-yellow-500", "bg-success", "bg-success"];
+const LABEL_COLORS = ["text-destructive", "text-destructive", "text-yellow-600", "text-success", "text-success"];
+
+/** Strength bar with estimated crack time and advice on how to improve the password. */
+const PasswordStrengthMeter = ({ password, userInputs = [] }: PasswordStrengthMeterProps) => {
+  if (!password) return null;
+
+  const strength = estimatePasswordStrength(password, userInputs);
+
+  return (
+    <div className="space-y-2 animate-in slide-in-from-top-1 duration-200">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">Password strength:</span>
+        <span className={`font-medium ${LABEL_COLORS[strength.score]}`}>{PASSWORD_SCORE_LABELS[strength.score]}</span>
+      </div>
+      <div className="h-2 bg-secondary rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${BAR_COLORS[strength.score]}`}
+          style={{ width: `${(strength.score + 1) * 20}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">Estimated time to crack: {strength.crackTime}</p>
+      {strength.warning && (
+        <div className="flex items-start gap-1.5 text-xs text-yellow-600">
+          <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />
+          <span>{strength.warning}</span>
+        </div>
+      )}
+      {strength.suggestions.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-muted-foreground space-y-0.5">
+          {strength.suggestions.map((suggestion) => (
+            <li key={suggestion}>{suggestion}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+}
+
+/** Renders `children` for signed-in users and sends everyone else to `/login`, remembering where they were going. */
+const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+  const { status } = useAuth();
+  const location = useLocation();
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (status === "anonymous") {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
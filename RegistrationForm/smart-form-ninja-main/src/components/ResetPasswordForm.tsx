@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CheckCircle2, AlertCircle, ArrowLeft } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { isLockoutError } from "@/hooks/use-lockout";
+import { CODE_EXPIRED_MESSAGE, useOtpChallenge } from "@/hooks/use-otp-challenge";
+import { useWizard, type WizardSubmit } from "@/hooks/use-wizard";
+import AuthLayout from "@/components/AuthLayout";
+import OtpVerification from "@/components/OtpVerification";
+import PasswordChecklist from "@/components/PasswordChecklist";
+import PasswordInput from "@/components/PasswordInput";
+import { ApiError } from "@/lib/api";
+import { offerToSavePassword } from "@/lib/credentials";
+import { allowsPaste, passwordFieldPolicy } from "@/lib/password-field-policy";
+import {
+  completePasswordReset,
+  requestPasswordReset,
+  resendPasswordResetCode,
+  verifyPasswordReset,
+} from "@/lib/password-reset";
+import { checkPasswordBreached } from "@/lib/pwned-passwords";
+import type { CodeSent } from "@/lib/registration";
+import { resetPasswordSchema, type ResetPasswordValues } from "@/lib/registration-schemas";
+import { breachedPasswordMessage } from "@/lib/validation";
+
+const resetPasswordFormSchema = resetPasswordSchema({ confirmPassword: passwordFieldPolicy.confirm });
+
+type StepId = "email" | "code" | "password";
+type StepSubmit = WizardSubmit<ResetPasswordValues, StepId>;
+
+const STEP_TITLES: Record<StepId, string> = {
+  email: "Reset your password",
+  code: "Check your email",
+  password: "Choose a new password",
+};
+
+const ResetPasswordForm = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Each step validates only its own fields, so the form is never submitted as a whole.
+  const form = useForm<ResetPasswordValues>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: { email: location.state?.email ?? "", otp: "", password: "", confirmPassword: "" },
+  });
+  const formData = form.watch();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const challenge = useOtpChallenge();
+
+  const showError = (field: keyof ResetPasswordValues, err: unknown, title = "Something went wrong") => {
+    const message =
+      typeof err === "string" ? err : err instanceof ApiError ? err.message : "Something went wrong. Please try again.";
+    form.clearErrors();
+    // A lockout shows its own countdown instead of a field error that would outlast it.
+    if (!isLockoutError(err)) form.setError(field, { type: "server", message });
+    toast({
+      title,
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const applyCodeSent = (result: CodeSent) => {
+    challenge.applyCodeSent(result);
+    form.setValue("otp", "");
+  };
+
+  const submitEmail: StepSubmit = async ({ email }) => {
+    form.clearErrors();
+    try {
+      applyCodeSent(await requestPasswordReset(email));
+      toast({
+        title: "Check your email",
+        description: `If an account exists for ${email}, we've sent it a reset code.`,
+      });
+    } catch (err) {
+      showError("email", err);
+      return false;
+    }
+  };
+
+  const submitCode: StepSubmit = async ({ email, otp }) => {
+    if (challenge.isCodeExpired) {
+      showError("otp", CODE_EXPIRED_MESSAGE, "Validation Error");
+      return false;
+    }
+    form.clearErrors();
+    try {
+      const { resetToken } = await verifyPasswordReset(email, otp);
+      setResetToken(resetToken);
+    } catch (err) {
+      challenge.applyError(err);
+      form.setValue("otp", "");
+      showError("otp", err);
+      return false;
+    }
+  };
+
+  const handleResendCode = async () => {
+    form.clearErrors();
+    setIsLoading(true);
+    try {
+      applyCodeSent(await resendPasswordResetCode(formData.email));
+      toast({
+        title: "Code Resent!",
+        description: `We've sent a new reset code to ${formData.email}`,
+      });
+    } catch (err) {
+      challenge.applyError(err);
+      showError("otp", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitPassword: StepSubmit = async ({ email, password }) => {
+    form.clearErrors();
+    try {
+      // An unavailable lookup resolves to null and does not hold the user up.
+      const breachCount = await checkPasswordBreached(password);
+      if (breachCount) {
+        showError("password", breachedPasswordMessage(breachCount), "Choose a different password");
+        return false;
+      }
+      await completePasswordReset(resetToken ?? "", password);
+      // Not awaited: the browser's save prompt shouldn't hold up the success screen.
+      offerToSavePassword(email, password);
+      setIsComplete(true);
+      toast({
+        title: "Password updated",
+        description: "You can now log in with your new password.",
+      });
+    } catch (err) {
+      // Dropping the token lets the password step's guard send the user back to the start.
+      if (err instanceof ApiError && err.code === "reset_expired") {
+        setResetToken(null);
+        challenge.reset();
+      }
+      showError("password", err);
+      return false;
+    }
+  };
+
+  const wizard = useWizard<ResetPasswordValues, StepId>({
+    form,
+    steps: [
+      { id: "email", fields: ["email"], submit: submitEmail },
+      // The code is used up once verified, so Back from the password step can't return to it.
+      { id: "code", fields: ["otp"], submit: submitCode, done: () => Boolean(resetToken) },
+      {
+        id: "password",
+        fields: ["password", "confirmPassword"],
+        guard: () => (resetToken ? true : "email"),
+        submit: submitPassword,
+      },
+    ],
+    onInvalid: (message) => {
+      toast({
+        title: "Validation Error",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+  const isBusy = isLoading || wizard.isSubmitting;
+
+  if (isComplete) {
+    return (
+      <AuthLayout>
+        <Card className="w-full max-w-md text-center shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in zoom-in duration-500">
+          <CardContent className="pt-12 pb-12">
+            <div className="flex justify-center mb-6">
+              <div className="rounded-full bg-gradient-to-br from-primary to-accent p-4">
+                <CheckCircle2 className="h-16 w-16 text-primary-foreground" />
+              </div>
+            </div>
+            <h2 className="text-3xl font-bold mb-4 text-foreground">Your password was reset!</h2>
+            <p className="text-muted-foreground mb-8">Log in with your new password to continue learning.</p>
+            <Button
+              onClick={() => navigate("/login", { state: { email: formData.email } })}
+              className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-opacity text-primary-foreground"
+            >
+              Log in
+            </Button>
+          </CardContent>
+        </Card>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout>
+      <Card className="w-full max-w-md shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
+        <CardHeader className="space-y-3 text-center pb-6">
+          <div className="flex items-center justify-between">
+            {!wizard.isFirst && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  form.clearErrors();
+                  wizard.back();
+                }}
+                className="hover:bg-primary/10"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            )}
+            <div className="flex-1"></div>
+            <span className="text-sm text-muted-foreground font-medium">
+              {wizard.position} / {wizard.total}
+            </span>
+          </div>
+          <CardTitle className="text-3xl font-bold">{STEP_TITLES[wizard.stepId]}</CardTitle>
+          <CardDescription className="text-base">
+            {wizard.stepId === "email" && "Enter the email you signed up with and we'll send you a code."}
+            {wizard.stepId === "code" && `Enter the 5-digit code we sent to ${formData.email}:`}
+            {wizard.stepId === "password" && "Choose a strong password to secure your account"}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <Form {...form}>
+            {wizard.stepId === "email" && (
+              <div className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field, fieldState }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium">Email</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="email"
+                          autoComplete="username"
+                          placeholder="example@example.com"
+                          className={`transition-all duration-200 shadow-[var(--shadow-input)] ${
+                            fieldState.error ? "border-destructive focus:ring-destructive" : ""
+                          }`}
+                        />
+                      </FormControl>
+                      {fieldState.error && (
+                        <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+                          <AlertCircle className="h-4 w-4" />
+                          <FormMessage className="font-normal" />
+                        </div>
+                      )}
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  onClick={wizard.next}
+                  disabled={isBusy}
+                  className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
+                >
+                  Send reset code
+                </Button>
+
+                <p className="text-center text-xs text-muted-foreground pt-4">
+                  Remembered it?{" "}
+                  <Link
+                    to="/login"
+                    state={{ email: formData.email }}
+                    className="text-primary font-semibold hover:underline"
+                  >
+                    Back to log in
+                  </Link>
+                </p>
+              </div>
+            )}
+
+            {wizard.stepId === "code" && (
+              <div className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="otp"
+                  render={({ field, fieldState }) => (
+                    <OtpVerification
+                      value={field.value}
+                      onChange={field.onChange}
+                      error={fieldState.error?.message}
+                      challenge={challenge}
+                      isLoading={isBusy}
+                      submitLabel="Verify code"
+                      onSubmit={wizard.next}
+                      onResend={handleResendCode}
+                    />
+                  )}
+                />
+              </div>
+            )}
+
+            {wizard.stepId === "password" && (
+              <div className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <PasswordInput
+                      label="New password"
+                      {...field}
+                      allowPaste={allowsPaste("password")}
+                      onSuggest={(password) => {
+                        field.onChange(password);
+                        form.setValue("confirmPassword", password);
+                      }}
+                      username={formData.email}
+                    />
+                  )}
+                />
+
+                {passwordFieldPolicy.confirm && (
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <PasswordInput
+                        label="Confirm new password"
+                        placeholder="Re-enter password"
+                        {...field}
+                        allowPaste={allowsPaste("confirmation")}
+                      />
+                    )}
+                  />
+                )}
+
+                <PasswordChecklist
+                  password={formData.password}
+                  userInputs={[formData.email]}
+                  confirmation={passwordFieldPolicy.confirm ? formData.confirmPassword : undefined}
+                />
+
+                <Button
+                  onClick={wizard.next}
+                  disabled={isBusy}
+                  className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl text-base py-6 text-primary-foreground"
+                >
+                  Reset password
+                </Button>
+              </div>
+            )}
+          </Form>
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+};
+
+export default ResetPasswordForm;
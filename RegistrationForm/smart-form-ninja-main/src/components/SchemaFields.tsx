@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, AlertCircle, Eye, EyeOff } from "lucide-react";
+import { isFieldActive } from "@/lib/field-rules";
+import { fieldRules, type FieldSchema, type FormSchema, type FormValues } from "@/lib/form-schema";
+
+interface SchemaFieldProps<Name extends string> {
+  field: FieldSchema<Name>;
+  values: FormValues<Name>;
+}
+
+const SchemaField = <Name extends string>({ field, values }: SchemaFieldProps<Name>) => {
+  const [showPassword, setShowPassword] = useState(false);
+  // Untyped: react-hook-form's paths can't be narrowed from a generic `Name`.
+  const form = useFormContext();
+  const name: string = field.name;
+  const isPassword = field.type === "password";
+
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field: input, fieldState }) => {
+        const error = fieldState.error?.message;
+        // Submitting counts as visiting every field, so valid ones turn green too.
+        const touched = fieldState.isTouched || form.formState.isSubmitted;
+        const notice = field.notice?.({
+          value: input.value,
+          values,
+          error,
+          touched,
+          setValue: (value) => form.setValue(name, value, { shouldValidate: true }),
+        });
+
+        const stateClass =
+          touched && !error ? "border-success focus:ring-success" : error ? "border-destructive focus:ring-destructive" : "";
+
+        return (
+          <FormItem className="animate-in fade-in duration-200">
+            <FormLabel className="text-sm font-medium">{field.label}</FormLabel>
+            <div className="relative">
+              {field.type === "select" ? (
+                <Select
+                  value={input.value}
+                  onValueChange={(value) => {
+                    input.onChange(value);
+                    input.onBlur();
+                  }}
+                >
+                  <FormControl>
+                    <SelectTrigger
+                      ref={input.ref}
+                      className={`transition-all duration-200 shadow-[var(--shadow-input)] ${stateClass}`}
+                    >
+                      <SelectValue placeholder={field.placeholder} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {field.options?.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <FormControl>
+                  <Input
+                    {...input}
+                    type={isPassword && showPassword ? "text" : field.type}
+                    placeholder={field.placeholder}
+                    autoComplete={field.autoComplete}
+                    className={`${isPassword ? "pr-10 " : ""}transition-all duration-200 shadow-[var(--shadow-input)] ${stateClass}`}
+                  />
+                </FormControl>
+              )}
+              {field.type === "select" ? null : isPassword ? (
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                </button>
+              ) : (
+                touched &&
+                !error && (
+                  <CheckCircle2 className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 text-success animate-in fade-in duration-200" />
+                )
+              )}
+            </div>
+            {notice?.content}
+            {error && !notice?.replacesError && (
+              <div className="flex items-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+                <AlertCircle className="h-4 w-4" />
+                <FormMessage className="font-normal" />
+              </div>
+            )}
+          </FormItem>
+        );
+      }}
+    />
+  );
+};
+
+/**
+ * Renders every field of a declarative form schema with the sign-up form's
+ * styling, re-checking `when` conditions as the answers change. Must sit
+ * inside a `Form` from `components/ui/form`.
+ */
+const SchemaFields = <Name extends string>({ schema }: { schema: FormSchema<Name> }) => {
+  const { control } = useFormContext();
+  const values = useWatch({ control }) as FormValues<Name>;
+  const rules = fieldRules(schema);
+
+  return (
+    <>
+      {schema
+        .filter((field) => isFieldActive(rules, field.name, values))
+        .map((field) => (
+          <SchemaField key={field.name} field={field} values={values} />
+        ))}
+    </>
+  );
+};
+
+export default SchemaFields;
@@ -0,0 +1,37 @@
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { AlertCircle } from "lucide-react";
+import { TOTP_LENGTH } from "@/lib/validation";
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  label?: string;
+}
+
+/** Six-digit authenticator app code, used both when enrolling and when signing in. */
+const TotpCodeInput = ({ value, onChange, error, label = "Authentication code" }: TotpCodeInputProps) => (
+  <div className="space-y-4">
+    <Label htmlFor="totp" className="text-sm font-medium text-center block">
+      {label}
+    </Label>
+    <div className="flex justify-center">
+      <InputOTP id="totp" maxLength={TOTP_LENGTH} value={value} onChange={onChange} autoComplete="one-time-code">
+        <InputOTPGroup>
+          {[...Array(TOTP_LENGTH)].map((_, index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+    {error && (
+      <div className="flex items-center justify-center gap-1.5 text-destructive text-sm animate-in slide-in-from-top-1 duration-200">
+        <AlertCircle className="h-4 w-4" />
+        <span>{error}</span>
+      </div>
+    )}
+  </div>
+);
+
+export default TotpCodeInput;
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Download, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import TotpCodeInput from "@/components/TotpCodeInput";
+import { ApiError } from "@/lib/api";
+import { confirmTotpEnrollment, startTotpEnrollment, type TotpSetup } from "@/lib/mfa";
+import { validateTotp } from "@/lib/validation";
+
+interface TotpEnrollmentProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+const RECOVERY_CODES_FILENAME = "classroom-recovery-codes.txt";
+
+const errorMessage = (err: unknown) =>
+  err instanceof ApiError ? err.message : "Something went wrong. Please try again.";
+
+const downloadRecoveryCodes = (codes: string[]) => {
+  const text = [
+    "Classroom recovery codes",
+    "Each code can be used once to sign in if you lose access to your authenticator app.",
+    "",
+    ...codes,
+    "",
+  ].join("\n");
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = RECOVERY_CODES_FILENAME;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Authenticator app setup: scan the QR code, confirm a code, then save the recovery codes. */
+const TotpEnrollment = ({ onComplete, onCancel }: TotpEnrollmentProps) => {
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [setupError, setSetupError] = useState<string>();
+  const [code, setCode] = useState("");
+  const [codeError, setCodeError] = useState<string>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [hasDownloaded, setHasDownloaded] = useState(false);
+  const [hasAcknowledged, setHasAcknowledged] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    startTotpEnrollment().then(
+      (result) => !cancelled && setSetup(result),
+      (err) => !cancelled && setSetupError(errorMessage(err)),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleVerify = async () => {
+    const error = validateTotp(code);
+    if (error) {
+      setCodeError(error);
+      return;
+    }
+    setCodeError(undefined);
+    setIsLoading(true);
+    try {
+      const { recoveryCodes } = await confirmTotpEnrollment(code);
+      setRecoveryCodes(recoveryCodes);
+    } catch (err) {
+      setCode("");
+      setCodeError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!recoveryCodes) return;
+    downloadRecoveryCodes(recoveryCodes);
+    setHasDownloaded(true);
+  };
+
+  const handleFinish = () => {
+    toast({
+      title: "Two-factor authentication is on",
+      description: "You'll be asked for a code from your authenticator app when you log in.",
+    });
+    onComplete();
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6 text-left">
+        <p className="text-sm text-muted-foreground">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they won't be
+          shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm text-center">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        <Button variant="outline" className="w-full" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download codes
+        </Button>
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="recovery-codes-saved"
+            checked={hasAcknowledged}
+            disabled={!hasDownloaded}
+            onCheckedChange={(checked) => setHasAcknowledged(checked === true)}
+          />
+          <Label htmlFor="recovery-codes-saved" className="text-sm font-normal leading-snug">
+            I've downloaded my recovery codes and stored them safely
+          </Label>
+        </div>
+        <Button
+          onClick={handleFinish}
+          disabled={!hasAcknowledged}
+          className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-opacity text-primary-foreground"
+        >
+          Finish
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator or 1Password, then enter the code it
+        shows.
+      </p>
+
+      {setupError ? (
+        <div className="flex items-center justify-center gap-1.5 text-destructive text-sm">
+          <AlertCircle className="h-4 w-4" />
+          <span>{setupError}</span>
+        </div>
+      ) : setup ? (
+        <div className="flex flex-col items-center gap-3">
+          <div className="rounded-md bg-white p-3">
+            <QRCodeSVG value={setup.otpauthUrl} size={176} />
+          </div>
+          <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+          <code className="rounded bg-muted px-2 py-1 font-mono text-sm break-all">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </code>
+        </div>
+      ) : (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      <TotpCodeInput value={code} onChange={setCode} error={codeError} />
+
+      <Button
+        onClick={handleVerify}
+        disabled={isLoading || !setup}
+        className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-opacity text-primary-foreground"
+      >
+        Verify and turn on
+      </Button>
+      <button onClick={onCancel} className="text-sm text-muted-foreground hover:underline">
+        Skip for now
+      </button>
+    </div>
+  );
+};
+
+export default TotpEnrollment;
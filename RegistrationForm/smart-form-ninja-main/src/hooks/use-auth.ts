@@ -0,0 +1,23 @@
+import * as React from "react";
+import type { Session } from "@/lib/auth";
+import type { RegisteredUser } from "@/lib/registration";
+
+export type AuthStatus = "loading" | "authenticated" | "anonymous";
+
+export interface AuthContextValue {
+  status: AuthStatus;
+  user: RegisteredUser | null;
+  /** Adopts a session returned by login or registration. */
+  signIn: (session: Session) => void;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = React.createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
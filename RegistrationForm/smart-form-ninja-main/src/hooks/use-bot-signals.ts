@@ -0,0 +1,41 @@
+import * as React from "react";
+import type { BotSignals } from "@/lib/bot-signals";
+import { fetchFormToken } from "@/lib/registration";
+
+// Loaded when the form appears; a token that failed to load is `null` and fetched again on submit.
+const prefetchFormToken = () =>
+  fetchFormToken().then(
+    ({ formToken }) => formToken,
+    () => null,
+  );
+
+/**
+ * Honeypot value and form token for a sign-up form. Render `HoneypotField`
+ * with `honeypot` and `setHoneypot`, send `await read()` with the submission,
+ * and call `restart()` when the form is shown afresh.
+ */
+export function useBotSignals() {
+  const formToken = React.useRef<Promise<string | null> | null>(null);
+  const [honeypot, setHoneypot] = React.useState("");
+
+  React.useEffect(() => {
+    formToken.current ??= prefetchFormToken();
+  }, []);
+
+  const read = React.useCallback(async (): Promise<BotSignals> => {
+    let token = await (formToken.current ??= prefetchFormToken());
+    if (token === null) {
+      // Not caught: a second failure is shown to the user rather than sent without signals.
+      token = (await fetchFormToken()).formToken;
+      formToken.current = Promise.resolve(token);
+    }
+    return { honeypot, formToken: token };
+  }, [honeypot]);
+
+  const restart = React.useCallback(() => {
+    formToken.current = prefetchFormToken();
+    setHoneypot("");
+  }, []);
+
+  return { honeypot, setHoneypot, read, restart };
+}
@@ -0,0 +1,26 @@
+import * as React from "react";
+
+const secondsUntil = (deadline: number | null) =>
+  deadline === null ? 0 : Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+
+/** Whole seconds remaining until `deadline` (epoch ms), re-rendering once per second until it reaches zero. */
+export function useCountdown(deadline: number | null) {
+  const [remaining, setRemaining] = React.useState(() => secondsUntil(deadline));
+
+  React.useEffect(() => {
+    setRemaining(secondsUntil(deadline));
+    if (deadline === null) return;
+
+    const interval = window.setInterval(() => {
+      const next = secondsUntil(deadline);
+      setRemaining(next);
+      if (next === 0) window.clearInterval(interval);
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [deadline]);
+
+  return remaining;
+}
+
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
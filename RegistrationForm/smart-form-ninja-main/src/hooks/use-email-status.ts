@@ -0,0 +1,35 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { checkEmailStatus } from "@/lib/registration";
+import { validateEmail } from "@/lib/validation";
+
+const DEBOUNCE_MS = 400;
+
+/**
+ * Looks up whether `email` already has an account once the user stops typing.
+ * Each keystroke gets its own query key, so react-query aborts the request for
+ * the superseded value instead of racing it.
+ */
+export function useEmailStatus(email: string) {
+  const normalized = email.trim().toLowerCase();
+  const [debounced, setDebounced] = React.useState(normalized);
+
+  React.useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(normalized), DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [normalized]);
+
+  const isSettled = debounced === normalized;
+  const query = useQuery({
+    queryKey: ["registration", "email-status", debounced],
+    queryFn: ({ signal }) => checkEmailStatus(debounced, signal),
+    enabled: !validateEmail(debounced),
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+
+  return {
+    status: isSettled ? query.data?.status : undefined,
+    isChecking: !isSettled || query.isFetching,
+  };
+}
@@ -0,0 +1,20 @@
+import * as React from "react";
+import { useCountdown } from "@/hooks/use-countdown";
+import { ApiError } from "@/lib/api";
+
+/** The API refused the attempt because of too many recent failures; `retryAfter` says for how long. */
+export const isLockoutError = (err: unknown) => err instanceof ApiError && err.code === "too_many_attempts";
+
+/** Tracks a brute-force lockout reported by the API and counts down to when the user may try again. */
+export function useLockout() {
+  const [lockedUntil, setLockedUntil] = React.useState<number | null>(null);
+  const retryIn = useCountdown(lockedUntil);
+
+  const applyError = React.useCallback((err: unknown) => {
+    if (err instanceof ApiError && isLockoutError(err) && typeof err.details.retryAfter === "number") {
+      setLockedUntil(Date.now() + err.details.retryAfter * 1000);
+    }
+  }, []);
+
+  return { retryIn, isLockedOut: retryIn > 0, applyError };
+}
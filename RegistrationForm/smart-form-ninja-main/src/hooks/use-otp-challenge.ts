@@ -0,0 +1,76 @@
+import * as React from "react";
+import { useCountdown } from "@/hooks/use-countdown";
+import { isLockoutError, useLockout } from "@/hooks/use-lockout";
+import { ApiError } from "@/lib/api";
+import type { OtpStatus } from "@/lib/registration";
+
+export const CODE_EXPIRED_MESSAGE = "This code has expired. Please request a new one.";
+
+/**
+ * Client-side view of an outstanding one-time code: expiry, resend cooldown,
+ * remaining attempts and any brute-force lockout, fed from the server's
+ * `OtpStatus` and error details.
+ */
+export function useOtpChallenge() {
+  const [resendAvailableAt, setResendAvailableAt] = React.useState<number | null>(null);
+  const [resendsRemaining, setResendsRemaining] = React.useState<number | null>(null);
+  const [attemptsRemaining, setAttemptsRemaining] = React.useState<number | null>(null);
+  const [codeExpiresAt, setCodeExpiresAt] = React.useState<number | null>(null);
+  const resendCooldown = useCountdown(resendAvailableAt);
+  const codeExpiresIn = useCountdown(codeExpiresAt);
+  const lockout = useLockout();
+  const applyLockoutError = lockout.applyError;
+
+  const applyCodeSent = React.useCallback((status: OtpStatus) => {
+    setResendAvailableAt(Date.now() + status.resendAvailableIn * 1000);
+    setCodeExpiresAt(Date.now() + status.expiresIn * 1000);
+    setResendsRemaining(status.resendsRemaining);
+    setAttemptsRemaining(null);
+  }, []);
+
+  const applyError = React.useCallback(
+    (err: unknown) => {
+      if (!(err instanceof ApiError)) return;
+      // Its retryAfter is for the next guess, not the next resend.
+      if (isLockoutError(err)) {
+        applyLockoutError(err);
+        return;
+      }
+      if (typeof err.details.attemptsRemaining === "number") {
+        setAttemptsRemaining(err.details.attemptsRemaining);
+      }
+      if (err.code === "otp_expired") {
+        setCodeExpiresAt(Date.now());
+      }
+      if (typeof err.details.retryAfter === "number") {
+        setResendAvailableAt(Date.now() + err.details.retryAfter * 1000);
+        if (err.code === "otp_resend_limit") setResendsRemaining(0);
+      }
+    },
+    [applyLockoutError],
+  );
+
+  const reset = React.useCallback(() => {
+    setResendAvailableAt(null);
+    setResendsRemaining(null);
+    setAttemptsRemaining(null);
+    setCodeExpiresAt(null);
+  }, []);
+
+  return {
+    resendCooldown,
+    resendsRemaining,
+    attemptsRemaining,
+    codeExpiresAt,
+    codeExpiresIn,
+    lockoutRetryIn: lockout.retryIn,
+    isLockedOut: lockout.isLockedOut,
+    isCodeExpired: codeExpiresAt !== null && codeExpiresIn === 0,
+    canResend: resendCooldown === 0 && resendsRemaining !== 0,
+    applyCodeSent,
+    applyError,
+    reset,
+  };
+}
+
+export type OtpChallenge = ReturnType<typeof useOtpChallenge>;
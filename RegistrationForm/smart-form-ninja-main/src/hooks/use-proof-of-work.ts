@@ -0,0 +1,51 @@
+import * as React from "react";
+import { solvePowChallenge } from "@/lib/pow-solver";
+import type { PowSolution } from "@/lib/proof-of-work";
+import { fetchPowChallenge } from "@/lib/registration";
+
+interface PendingSolution {
+  promise: Promise<{ solution: PowSolution; expiresAt: number }>;
+  controller: AbortController;
+}
+
+const solveFresh = (): PendingSolution => {
+  const controller = new AbortController();
+  const promise = fetchPowChallenge(controller.signal).then(async (challenge) => {
+    const expiresAt = Date.now() + challenge.expiresIn * 1000;
+    return { solution: await solvePowChallenge(challenge, controller.signal), expiresAt };
+  });
+  // Failures surface when the solution is taken; until then they shouldn't be reported as unhandled.
+  promise.catch(() => {});
+  return { promise, controller };
+};
+
+/**
+ * Works on the sign-up proof-of-work in the background while `enabled`, so a
+ * solution is usually ready by the time the user has typed their email.
+ * Each solution is accepted once, so taking one starts on the next.
+ */
+export function useProofOfWork(enabled: boolean) {
+  const pending = React.useRef<PendingSolution | null>(null);
+  const [generation, setGeneration] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    pending.current ??= solveFresh();
+    return () => {
+      pending.current?.controller.abort();
+      pending.current = null;
+    };
+  }, [enabled, generation]);
+
+  const takeSolution = React.useCallback(async () => {
+    const current = pending.current ?? solveFresh();
+    pending.current = null;
+    setGeneration((value) => value + 1);
+
+    const { solution, expiresAt } = await current.promise;
+    if (expiresAt > Date.now()) return solution;
+    return (await solveFresh().promise).solution;
+  }, []);
+
+  return { takeSolution };
+}
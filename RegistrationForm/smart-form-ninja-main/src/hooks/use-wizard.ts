@@ -0,0 +1,145 @@
+import * as React from "react";
+import type { FieldPath, FieldValues, UseFormReturn } from "react-hook-form";
+
+/**
+ * Runs once a step's fields are valid. Resolves to the id of the step to go
+ * to, nothing for the next one in order, or `false` to stay.
+ */
+export type WizardSubmit<Values extends FieldValues, Id extends string> = (values: Values) => Promise<Id | void | false>;
+
+/**
+ * One step of a wizard. Steps run in the order they are declared unless
+ * `submit` names another one.
+ */
+export interface WizardStep<Values extends FieldValues, Id extends string> {
+  id: Id;
+  /** Validated with the form's schema before `submit` runs. */
+  fields: FieldPath<Values>[];
+  /** Steps that don't apply to these answers are passed over and left out of the step count. */
+  skip?: (values: Values) => boolean;
+  /** Checked whenever the step would be shown: `true` to enter, or the step to show instead. */
+  guard?: (values: Values) => true | Id;
+  /**
+   * Once true, this step and every one before it are finished for good, like a
+   * one-time code that has been used: going back stops at the step after it.
+   */
+  done?: (values: Values) => boolean;
+  submit?: WizardSubmit<Values, Id>;
+}
+
+export interface WizardOptions<Values extends FieldValues, Id extends string> {
+  steps: WizardStep<Values, Id>[];
+  form: UseFormReturn<Values>;
+  initialStep?: Id;
+  /** Called with the first error message when the current step's fields fail validation. */
+  onInvalid?: (message: string | undefined) => void;
+}
+
+const MAX_REDIRECTS = 10;
+
+/** The step that is actually shown for `id`, after skips and guards. */
+const resolveStep = <Values extends FieldValues, Id extends string>(
+  steps: WizardStep<Values, Id>[],
+  id: Id,
+  values: Values,
+) => {
+  let index = Math.max(steps.findIndex((step) => step.id === id), 0);
+  for (let redirects = 0; redirects < MAX_REDIRECTS; redirects++) {
+    while (index < steps.length - 1 && steps[index].skip?.(values)) index++;
+    const target = steps[index].guard?.(values) ?? true;
+    if (target === true) return index;
+    index = steps.findIndex((step) => step.id === target);
+  }
+  throw new Error(`Wizard guards redirect in a loop from step "${id}"`);
+};
+
+/** The index of the last step that is `done`, or -1; going back can't reach it or anything before it. */
+const doneIndex = <Values extends FieldValues, Id extends string>(steps: WizardStep<Values, Id>[], values: Values) =>
+  steps.reduce((last, step, index) => (step.done?.(values) ? index : last), -1);
+
+/**
+ * Drives a multi-step flow over one react-hook-form instance: per-step
+ * validation, async submit actions, branching, skipping, entry guards and a
+ * back stack that follows the path the user actually took.
+ */
+export function useWizard<Values extends FieldValues, Id extends string>({
+  steps,
+  form,
+  initialStep,
+  onInvalid,
+}: WizardOptions<Values, Id>) {
+  const [requestedId, setRequestedId] = React.useState<Id>(initialStep ?? steps[0].id);
+  const [history, setHistory] = React.useState<Id[]>([]);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  // Watching keeps skips and guards current as answers change.
+  const values = form.watch();
+  const index = resolveStep(steps, requestedId, values);
+  const current = steps[index];
+  const visibleSteps = steps.filter((step) => !step.skip?.(values));
+  const firstReachable = doneIndex(steps, values) + 1;
+
+  // Record redirects made by guards, so going back doesn't land on a step the guard refused.
+  React.useEffect(() => {
+    if (current.id !== requestedId) setRequestedId(current.id);
+  }, [current.id, requestedId]);
+
+  const goTo = React.useCallback(
+    (id: Id) => {
+      setHistory((prev) => [...prev, current.id]);
+      setRequestedId(id);
+    },
+    [current.id],
+  );
+
+  const back = React.useCallback(() => {
+    const values = form.getValues();
+    const floor = doneIndex(steps, values);
+    const reachable = (id: Id) => steps.findIndex((step) => step.id === id) > floor;
+    let previous = history.length - 1;
+    while (previous >= 0 && !reachable(history[previous])) previous--;
+    if (previous >= 0) {
+      setHistory(history.slice(0, previous));
+      setRequestedId(history[previous]);
+      return;
+    }
+    setHistory([]);
+    const earlier = steps
+      .slice(floor + 1, index)
+      .reverse()
+      .find((step) => !step.skip?.(values));
+    if (earlier) setRequestedId(earlier.id);
+  }, [history, steps, index, form]);
+
+  const next = React.useCallback(async () => {
+    if (current.fields.length && !(await form.trigger(current.fields))) {
+      onInvalid?.(current.fields.map((field) => form.getFieldState(field).error?.message).find(Boolean));
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const target = await current.submit?.(form.getValues());
+      if (target === false) return;
+      const following =
+        typeof target === "string" ? target : steps.slice(index + 1).find((step) => !step.skip?.(form.getValues()))?.id;
+      if (following !== undefined) goTo(following);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [current, form, onInvalid, steps, index, goTo]);
+
+  return {
+    current,
+    stepId: current.id,
+    /** 1-based position among the steps that apply, for "2 / 3" counters. */
+    position: visibleSteps.indexOf(current) + 1,
+    total: visibleSteps.length,
+    /** Nothing to go back to, either because this is the first step or the earlier ones are `done`. */
+    isFirst: !steps.slice(firstReachable, index).some((step) => !step.skip?.(values)),
+    isSubmitting,
+    next,
+    back,
+    goTo,
+  };
+}
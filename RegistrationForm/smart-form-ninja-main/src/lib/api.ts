@@ -0,0 +1,106 @@
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+let accessToken: string | null = null;
+
+/** Bearer token attached to every request; managed by `AuthProvider`. */
+export const setAccessToken = (token: string | null) => {
+  accessToken = token;
+};
+
+export interface RequestOptions {
+  /** Aborts the request, e.g. when react-query cancels a superseded lookup. */
+  signal?: AbortSignal;
+}
+
+const CSRF_HEADER = "X-CSRF-Token";
+const UNSAFE_METHODS = new Set(["POST", "PUT", "DELETE"]);
+// Fetch a new token this long before the current one expires, so it can't run out in flight.
+const CSRF_REFRESH_MARGIN_MS = 60 * 1000;
+
+let csrf: { token: string; expiresAt: number } | null = null;
+let pendingCsrf: Promise<string> | null = null;
+
+const send = async <T>(
+  method: string,
+  path: string,
+  body: unknown,
+  options: RequestOptions,
+  csrfToken?: string,
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`/api${path}`, {
+      method,
+      credentials: "same-origin",
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        ...(csrfToken ? { [CSRF_HEADER]: csrfToken } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: options.signal,
+    });
+  } catch (err) {
+    if (options.signal?.aborted) throw err;
+    throw new ApiError(0, "network_error", "Unable to reach the server. Check your connection and try again.");
+  }
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const { error, message, ...details } = payload;
+    throw new ApiError(
+      response.status,
+      error ?? "unknown_error",
+      message ?? "Something went wrong. Please try again.",
+      details,
+    );
+  }
+  return payload as T;
+};
+
+/** The current CSRF token, fetching a new one when it is missing or about to expire. Callers share one fetch. */
+const csrfToken = () => {
+  if (csrf && csrf.expiresAt - CSRF_REFRESH_MARGIN_MS > Date.now()) return Promise.resolve(csrf.token);
+  pendingCsrf ??= send<{ csrfToken: string; expiresIn: number }>("GET", "/csrf", undefined, {})
+    .then(({ csrfToken, expiresIn }) => {
+      csrf = { token: csrfToken, expiresAt: Date.now() + expiresIn * 1000 };
+      return csrfToken;
+    })
+    .finally(() => {
+      pendingCsrf = null;
+    });
+  return pendingCsrf;
+};
+
+const isCsrfError = (err: unknown) => err instanceof ApiError && err.status === 403 && err.code.startsWith("csrf_");
+
+/**
+ * Unsafe methods carry the CSRF token. If the server rejects it, for example
+ * because it expired while a form sat open, the request is retried once with a
+ * fresh token before the error reaches the form.
+ */
+const request = async <T>(method: string, path: string, body?: unknown, options: RequestOptions = {}): Promise<T> => {
+  if (!UNSAFE_METHODS.has(method)) return send<T>(method, path, body, options);
+  try {
+    return await send<T>(method, path, body, options, await csrfToken());
+  } catch (err) {
+    if (!isCsrfError(err)) throw err;
+    csrf = null;
+    return send<T>(method, path, body, options, await csrfToken());
+  }
+};
+
+export const api = {
+  get: <T>(path: string, options?: RequestOptions) => request<T>("GET", path, undefined, options),
+  post: <T>(path: string, body: unknown = {}, options?: RequestOptions) => request<T>("POST", path, body, options),
+};
@@ -0,0 +1,29 @@
+import { api } from "@/lib/api";
+import type { RegisteredUser } from "@/lib/registration";
+
+export interface Session {
+  accessToken: string;
+  /** Seconds until `accessToken` must be refreshed. */
+  expiresIn: number;
+  user: RegisteredUser;
+}
+
+/** Returned by `login` and passkey sign-in instead of a session when the account has two-factor authentication turned on. */
+export interface MfaRequired {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
+export const login = (email: string, password: string) =>
+  api.post<Session | MfaRequired>("/auth/login", { email, password });
+
+export const isMfaRequired = (result: Session | MfaRequired): result is MfaRequired => "mfaRequired" in result;
+
+export const verifyMfa = (mfaToken: string, factor: SecondFactor) =>
+  api.post<Session>("/auth/mfa", { mfaToken, ...factor });
+
+export const refreshSession = () => api.post<Session>("/auth/refresh");
+
+export const logout = () => api.post<Record<string, never>>("/auth/logout");
@@ -0,0 +1,37 @@
+// Shared by the sign-up forms and the local API in /server, so keep this
+// module free of React and of "@/" imports.
+
+/** Name of the hidden honeypot input: tempting to form-filling scripts, never seen by people. */
+export const HONEYPOT_FIELD = "website";
+
+/** Submitting faster than this after the form appeared is taken as a script, not a person. */
+export const MIN_FILL_TIME_MS = 2500;
+
+/** Sent with each sign-up submission so the API can tell people from scripts. */
+export interface BotSignals {
+  /** The honeypot's value; always empty for people. */
+  honeypot: string;
+  /**
+   * Signed by the API when the form appeared. The API measures the fill time
+   * from it, so a script can't simply claim to have taken its time.
+   */
+  formToken: string;
+}
+
+export type BotReason = "honeypot_filled" | "filled_too_fast" | "signals_missing";
+
+/**
+ * Why a submission looks automated, or `null` when it looks like a person
+ * filled in the form. `fillTimeMs` is `null` when the API could not measure
+ * it from the form token.
+ */
+export const detectBot = (
+  honeypot: unknown,
+  fillTimeMs: number | null,
+  minFillTimeMs = MIN_FILL_TIME_MS,
+): BotReason | null => {
+  if (typeof honeypot !== "string" || fillTimeMs === null) return "signals_missing";
+  if (honeypot) return "honeypot_filled";
+  if (fillTimeMs < minFillTimeMs) return "filled_too_fast";
+  return null;
+};
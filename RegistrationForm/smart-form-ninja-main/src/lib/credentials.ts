@@ -0,0 +1,29 @@
+// The Credential Management API's password credentials aren't in TypeScript's DOM typings yet.
+interface PasswordCredentialData {
+  id: string;
+  password: string;
+  name?: string;
+}
+
+type PasswordCredentialConstructor = new (data: PasswordCredentialData) => Credential;
+
+const passwordCredential = () =>
+  (window as Window & { PasswordCredential?: PasswordCredentialConstructor }).PasswordCredential;
+
+/**
+ * Asks the browser to offer saving the new password. The forms don't submit a
+ * real `<form>`, so browsers that rely on spotting a submission wouldn't prompt
+ * on their own. Resolves to whether the browser accepted the request; where the
+ * API is missing, the hidden username field still lets password managers match
+ * the password to the account.
+ */
+export const offerToSavePassword = async (email: string, password: string) => {
+  const PasswordCredential = passwordCredential();
+  if (!PasswordCredential || !navigator.credentials?.store) return false;
+  try {
+    await navigator.credentials.store(new PasswordCredential({ id: email, password, name: email }));
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,91 @@
+// Generated by scripts/update-disposable-domains.ts; run `npm run update:disposable-domains` to refresh.
+// Hand edits are overwritten.
+
+export const DISPOSABLE_EMAIL_DOMAINS = [
+  "10minutemail.com",
+  "10minutemail.net",
+  "20minutemail.com",
+  "33mail.com",
+  "anonbox.net",
+  "burnermail.io",
+  "byom.de",
+  "discard.email",
+  "disposablemail.com",
+  "dispostable.com",
+  "dropmail.me",
+  "einrot.com",
+  "emailfake.com",
+  "emailondeck.com",
+  "emailtemporanea.net",
+  "fakeinbox.com",
+  "fakemail.net",
+  "fakemailgenerator.com",
+  "getairmail.com",
+  "getnada.com",
+  "grr.la",
+  "guerrillamail.biz",
+  "guerrillamail.com",
+  "guerrillamail.de",
+  "guerrillamail.info",
+  "guerrillamail.net",
+  "guerrillamail.org",
+  "guerrillamail.win",
+  "guerrillamailblock.com",
+  "harakirimail.com",
+  "inboxbear.com",
+  "inboxkitten.com",
+  "incognitomail.org",
+  "jetable.org",
+  "mail-temp.com",
+  "mail.tm",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailforspam.com",
+  "mailinator.com",
+  "mailinator.net",
+  "mailinator2.com",
+  "mailnesia.com",
+  "mailnull.com",
+  "mailpoof.com",
+  "mailsac.com",
+  "mailtemp.info",
+  "mintemail.com",
+  "moakt.com",
+  "mohmal.com",
+  "mvrht.net",
+  "mytemp.email",
+  "mytrashmail.com",
+  "nada.email",
+  "owlymail.com",
+  "pokemail.net",
+  "sharklasers.com",
+  "spam4.me",
+  "spambog.com",
+  "spambox.us",
+  "spamdecoy.net",
+  "spamex.com",
+  "spamgourmet.com",
+  "temp-mail.io",
+  "temp-mail.org",
+  "tempail.com",
+  "tempinbox.com",
+  "tempmail.com",
+  "tempmail.dev",
+  "tempmail.net",
+  "tempmail.plus",
+  "tempmailo.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "tmail.ws",
+  "tmpmail.net",
+  "tmpmail.org",
+  "trashmail.com",
+  "trashmail.de",
+  "trashmail.io",
+  "trashmail.net",
+  "wegwerfmail.de",
+  "wegwerfmail.net",
+  "yopmail.com",
+  "yopmail.fr",
+  "yopmail.net",
+];
@@ -0,0 +1,4 @@
+import type { EmailQualityPolicy } from "@/lib/email-quality";
+
+/** Set at build time by vite.config.ts from the same variables the API reads. */
+export const emailQualityPolicy: EmailQualityPolicy = __EMAIL_QUALITY_POLICY__;
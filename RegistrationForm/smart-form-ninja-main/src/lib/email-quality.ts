@@ -0,0 +1,139 @@
+// Shared by the sign-up forms and the local API in /server, so keep this
+// module free of React and of "@/" imports.
+
+import { DISPOSABLE_EMAIL_DOMAINS } from "./disposable-domains";
+
+/** "hint" shows a note under the field that the user may ignore; "block" refuses the address. */
+export type EmailQualityMode = "off" | "hint" | "block";
+
+export interface EmailQualityPolicy {
+  typos: EmailQualityMode;
+  disposable: EmailQualityMode;
+}
+
+export interface EmailQualityIssue {
+  kind: "typo" | "disposable";
+  message: string;
+  /** The corrected address for a likely typo, offered as a one-click fix. */
+  suggestion?: string;
+  blocking: boolean;
+}
+
+export const DEFAULT_EMAIL_QUALITY_POLICY: EmailQualityPolicy = { typos: "hint", disposable: "block" };
+
+// Ordered by popularity: when two domains are equally close, the first wins.
+const COMMON_DOMAINS = [
+  "gmail.com",
+  "yahoo.com",
+  "hotmail.com",
+  "outlook.com",
+  "icloud.com",
+  "aol.com",
+  "live.com",
+  "msn.com",
+  "me.com",
+  "mac.com",
+  "googlemail.com",
+  "protonmail.com",
+  "proton.me",
+  "gmx.com",
+  "gmx.de",
+  "web.de",
+  "yandex.ru",
+  "mail.ru",
+  "qq.com",
+  "163.com",
+  "zoho.com",
+  "comcast.net",
+  "verizon.net",
+  "att.net",
+  "yahoo.co.uk",
+  "hotmail.co.uk",
+];
+
+const disposableDomains = new Set(DISPOSABLE_EMAIL_DOMAINS);
+
+export const parseEmailQualityMode = (value: string | undefined, fallback: EmailQualityMode): EmailQualityMode =>
+  value === "off" || value === "hint" || value === "block" ? value : fallback;
+
+/** Reads `EMAIL_TYPO_POLICY` and `DISPOSABLE_EMAIL_POLICY`, the variables both the API and the client build use. */
+export const emailQualityPolicyFrom = (env: Record<string, string | undefined>): EmailQualityPolicy => ({
+  typos: parseEmailQualityMode(env.EMAIL_TYPO_POLICY, DEFAULT_EMAIL_QUALITY_POLICY.typos),
+  disposable: parseEmailQualityMode(env.DISPOSABLE_EMAIL_POLICY, DEFAULT_EMAIL_QUALITY_POLICY.disposable),
+});
+
+/** Edit distance counting a swap of adjacent letters (`gmial`) as a single edit. */
+const editDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const splitEmail = (email: string) => {
+  const trimmed = email.trim();
+  const at = trimmed.lastIndexOf("@");
+  return { local: trimmed.slice(0, at), domain: trimmed.slice(at + 1).toLowerCase() };
+};
+
+/** Returns the address with its domain corrected when it is a near miss of a well-known provider. */
+export const suggestEmail = (email: string): string | undefined => {
+  const { local, domain } = splitEmail(email);
+  if (!local || !domain || COMMON_DOMAINS.includes(domain)) return undefined;
+
+  // Short domains are too close to each other for two edits to mean a typo.
+  const maxDistance = domain.length < 8 ? 1 : 2;
+  let best: { domain: string; distance: number } | undefined;
+  for (const candidate of COMMON_DOMAINS) {
+    const distance = editDistance(domain, candidate);
+    if (distance <= maxDistance && (!best || distance < best.distance)) best = { domain: candidate, distance };
+  }
+  return best && `${local}@${best.domain}`;
+};
+
+/** Matches the domain and any parent domain, so `x.mailinator.com` counts too. */
+export const isDisposableEmail = (email: string) => {
+  const labels = splitEmail(email).domain.split(".");
+  return labels.some((_, index) => disposableDomains.has(labels.slice(index).join(".")));
+};
+
+/**
+ * Checks an address that already passed `validateEmail`. Returns the most
+ * relevant issue, or `undefined` when the address looks fine or the policy
+ * turns the matching check off.
+ */
+export const checkEmailQuality = (
+  email: string,
+  policy: EmailQualityPolicy = DEFAULT_EMAIL_QUALITY_POLICY,
+): EmailQualityIssue | undefined => {
+  if (policy.disposable !== "off" && isDisposableEmail(email)) {
+    return {
+      kind: "disposable",
+      message:
+        policy.disposable === "block"
+          ? "Temporary email addresses aren't allowed. Please use an address you'll keep."
+          : "This looks like a temporary email address. You may lose access to your account.",
+      blocking: policy.disposable === "block",
+    };
+  }
+
+  const suggestion = policy.typos === "off" ? undefined : suggestEmail(email);
+  if (suggestion) {
+    return {
+      kind: "typo",
+      message: `Did you mean ${suggestion}?`,
+      suggestion,
+      blocking: policy.typos === "block",
+    };
+  }
+  return undefined;
+};
@@ -0,0 +1,43 @@
+// Shared by the form renderer and the local API in /server, so keep this
+// module free of React and of "@/" imports.
+
+/** A test on another field's current answer. */
+export type Condition<Name extends string> =
+  | { field: Name; equals: string }
+  | { field: Name; lessThan: number };
+
+/** Conditional fields and when they apply. Fields without a rule always apply. */
+export type FieldRules<Name extends string> = Partial<Record<Name, Condition<Name>>>;
+
+type Answers = Record<string, unknown>;
+
+export const isConditionMet = <Name extends string>(condition: Condition<Name>, values: Answers) => {
+  const value = values[condition.field];
+  if ("equals" in condition) return value === condition.equals;
+  if (typeof value !== "string" || !value.trim()) return false;
+  const number = Number(value);
+  return Number.isFinite(number) && number < condition.lessThan;
+};
+
+/**
+ * Whether `field` is shown and validated. A rule on a field that is itself
+ * hidden never applies, so rules chain: guardian email depends on age, which
+ * only applies to students.
+ */
+export const isFieldActive = <Name extends string>(
+  rules: FieldRules<Name>,
+  field: Name,
+  values: Answers,
+  seen: Name[] = [],
+): boolean => {
+  const condition = rules[field];
+  if (!condition) return true;
+  if (seen.includes(field)) return false;
+  return isConditionMet(condition, values) && isFieldActive(rules, condition.field, values, [...seen, field]);
+};
+
+/** `values` without the answers to fields that don't apply, so stale input is never stored. */
+export const activeValues = <Values extends Answers>(rules: FieldRules<keyof Values & string>, values: Values) =>
+  Object.fromEntries(
+    Object.entries(values).filter(([field]) => isFieldActive(rules, field as keyof Values & string, values)),
+  ) as Values;
@@ -0,0 +1,54 @@
+import type { ReactNode } from "react";
+import type { Condition, FieldRules } from "@/lib/field-rules";
+
+export type FieldType = "text" | "email" | "tel" | "password" | "number" | "select";
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+export type FormValues<Name extends string> = Record<Name, string>;
+
+/** What a field's `notice` gets to work with. */
+export interface FieldContext<Name extends string> {
+  value: string;
+  values: FormValues<Name>;
+  error?: string;
+  touched: boolean;
+  setValue: (value: string) => void;
+}
+
+export interface FieldNotice {
+  content: ReactNode;
+  /** Hide the field's error message while the notice is shown, e.g. when the notice already explains it. */
+  replacesError?: boolean;
+}
+
+/**
+ * One input in a declarative form, rendered by `SchemaFields`. Validation
+ * lives in the form's zod schema, not here.
+ */
+export interface FieldSchema<Name extends string> {
+  name: Name;
+  type: FieldType;
+  label: string;
+  placeholder?: string;
+  /** Browser and password manager hint, e.g. "email" or "new-password". */
+  autoComplete?: string;
+  /** The choices of a "select" field. */
+  options?: FieldOption[];
+  /** Show the field only while this holds; the form's schema should apply the same rule. */
+  when?: Condition<Name>;
+  /** Extra content under the input, such as a strength checklist or a typo suggestion. */
+  notice?: (field: FieldContext<Name>) => FieldNotice | null;
+}
+
+export type FormSchema<Name extends string> = readonly FieldSchema<Name>[];
+
+/** The `when` conditions of a schema's fields, for checking which of them apply. */
+export const fieldRules = <Name extends string>(schema: FormSchema<Name>) =>
+  Object.fromEntries(schema.filter((field) => field.when).map((field) => [field.name, field.when])) as FieldRules<Name>;
+
+export const emptyValues = <Name extends string>(schema: FormSchema<Name>) =>
+  Object.fromEntries(schema.map((field) => [field.name, ""])) as FormValues<Name>;
@@ -0,0 +1,12 @@
+import { api } from "@/lib/api";
+
+export interface TotpSetup {
+  /** Base32 secret for typing into an authenticator app that can't scan the QR code. */
+  secret: string;
+  otpauthUrl: string;
+}
+
+export const startTotpEnrollment = () => api.post<TotpSetup>("/mfa/totp/setup");
+
+export const confirmTotpEnrollment = (code: string) =>
+  api.post<{ recoveryCodes: string[] }>("/mfa/totp/confirm", { code });
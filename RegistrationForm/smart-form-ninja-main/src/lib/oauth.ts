@@ -0,0 +1,16 @@
+export type OAuthProviderId = "apple" | "facebook" | "google";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  access_denied: "Sign-in was cancelled.",
+  invalid_state: "Your sign-in request expired or was started in another window. Please try again.",
+  provider_unavailable: "This sign-in option isn't available right now.",
+  email_unverified: "Your provider account has no verified email address.",
+  provider_error: "We couldn't complete sign-in with your provider. Please try again.",
+};
+
+/** Hands the browser over to the server, which redirects to the provider's consent screen. */
+export const startOAuthSignIn = (provider: OAuthProviderId) => {
+  window.location.assign(`/api/oauth/${provider}/start`);
+};
+
+export const oauthErrorMessage = (code: string) => ERROR_MESSAGES[code] ?? ERROR_MESSAGES.provider_error;
@@ -0,0 +1,52 @@
+import {
+  browserSupportsWebAuthn,
+  startAuthentication,
+  startRegistration,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+} from "@simplewebauthn/browser";
+import { api, ApiError } from "@/lib/api";
+import type { MfaRequired, Session } from "@/lib/auth";
+import type { ProfileDetails } from "@/lib/registration-schemas";
+
+export const supportsPasskeys = browserSupportsWebAuthn;
+
+/** Turns a browser WebAuthn failure into an `ApiError` so forms can treat it like any other. */
+const toApiError = (err: unknown) => {
+  if (err instanceof ApiError) return err;
+  if (err instanceof Error && err.name === "NotAllowedError") {
+    return new ApiError(0, "passkey_cancelled", "Passkey request was cancelled or timed out.");
+  }
+  if (err instanceof Error && err.name === "InvalidStateError") {
+    return new ApiError(0, "passkey_exists", "This device already has a passkey for this account.");
+  }
+  return new ApiError(0, "passkey_failed", "Your device couldn't use a passkey. Please try again.");
+};
+
+/** Creates the account with a passkey instead of a password, once the email has been verified. */
+export const registerWithPasskey = async (registrationToken: string, profile: ProfileDetails) => {
+  try {
+    const { options } = await api.post<{ options: PublicKeyCredentialCreationOptionsJSON }>(
+      "/registration/passkey/options",
+      { registrationToken },
+    );
+    const response = await startRegistration({ optionsJSON: options });
+    return await api.post<Session>("/registration/passkey/verify", { registrationToken, response, ...profile });
+  } catch (err) {
+    throw toApiError(err);
+  }
+};
+
+/** Resolves to `MfaRequired` for accounts with two-factor authentication, like `login`. */
+export const signInWithPasskey = async () => {
+  try {
+    const { challengeId, options } = await api.post<{
+      challengeId: string;
+      options: PublicKeyCredentialRequestOptionsJSON;
+    }>("/auth/passkey/options");
+    const response = await startAuthentication({ optionsJSON: options });
+    return await api.post<Session | MfaRequired>("/auth/passkey/verify", { challengeId, response });
+  } catch (err) {
+    throw toApiError(err);
+  }
+};
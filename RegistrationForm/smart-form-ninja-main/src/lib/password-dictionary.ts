@@ -0,0 +1,161 @@
+// Most common passwords and password words, most frequent first: the
+// strength estimator treats a word's position here as its guess rank.
+
+export const COMMON_PASSWORD_WORDS = [
+  "password",
+  "qwerty",
+  "iloveyou",
+  "admin",
+  "welcome",
+  "monkey",
+  "login",
+  "abc",
+  "starwars",
+  "dragon",
+  "passw0rd",
+  "master",
+  "hello",
+  "freedom",
+  "whatever",
+  "qazwsx",
+  "trustno",
+  "letmein",
+  "football",
+  "baseball",
+  "sunshine",
+  "princess",
+  "shadow",
+  "superman",
+  "batman",
+  "michael",
+  "jennifer",
+  "jordan",
+  "hunter",
+  "charlie",
+  "thomas",
+  "daniel",
+  "andrew",
+  "jessica",
+  "ashley",
+  "killer",
+  "pepper",
+  "ginger",
+  "summer",
+  "winter",
+  "spring",
+  "autumn",
+  "flower",
+  "cookie",
+  "chocolate",
+  "secret",
+  "soccer",
+  "hockey",
+  "tigger",
+  "purple",
+  "orange",
+  "yellow",
+  "silver",
+  "golden",
+  "cheese",
+  "banana",
+  "computer",
+  "internet",
+  "samsung",
+  "google",
+  "apple",
+  "mustang",
+  "ferrari",
+  "harley",
+  "matrix",
+  "maggie",
+  "buster",
+  "ranger",
+  "access",
+  "changeme",
+  "default",
+  "guest",
+  "root",
+  "user",
+  "test",
+  "love",
+  "lovely",
+  "angel",
+  "baby",
+  "family",
+  "friends",
+  "forever",
+  "money",
+  "qwertyuiop",
+  "asdfgh",
+  "zxcvbn",
+  "classroom",
+  "school",
+  "student",
+  "teacher",
+  "learning",
+  "education",
+  "college",
+  "london",
+  "paris",
+  "america",
+  "canada",
+  "india",
+  "mother",
+  "father",
+  "sister",
+  "brother",
+  "heaven",
+  "jesus",
+  "blessed",
+  "happy",
+  "smile",
+  "music",
+  "guitar",
+  "gamer",
+  "pokemon",
+  "minecraft",
+  "naruto",
+  "dolphin",
+  "tiger",
+  "lion",
+  "eagle",
+  "horse",
+  "puppy",
+  "kitty",
+  "cat",
+  "dog",
+  "red",
+  "blue",
+  "green",
+  "black",
+  "white",
+  "star",
+  "sun",
+  "moon",
+  "magic",
+  "power",
+  "phoenix",
+  "warrior",
+  "ninja",
+  "pirate",
+  "zombie",
+  "hacker",
+  "coffee",
+  "pizza",
+  "beer",
+  "vodka",
+  "january",
+  "february",
+  "march",
+  "april",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+  "monday",
+  "friday",
+  "sunday",
+];
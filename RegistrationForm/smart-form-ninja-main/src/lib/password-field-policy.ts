@@ -0,0 +1,24 @@
+/**
+ * Where new-password fields accept pasted text. `confirmation-only` blocks
+ * pasting into the confirm field so people type it at least once.
+ */
+export type PastePolicy = "allow" | "confirmation-only" | "block";
+
+export interface PasswordFieldPolicy {
+  /** Ask for the new password twice. */
+  confirm: boolean;
+  paste: PastePolicy;
+}
+
+const parsePastePolicy = (value: string | undefined): PastePolicy =>
+  value === "confirmation-only" || value === "block" ? value : "allow";
+
+/** Set at build time. Pasting stays allowed by default so password managers keep working. */
+export const passwordFieldPolicy: PasswordFieldPolicy = {
+  confirm: import.meta.env.VITE_PASSWORD_CONFIRMATION !== "false",
+  paste: parsePastePolicy(import.meta.env.VITE_PASSWORD_PASTE_POLICY),
+};
+
+/** Whether pasting is allowed into the password field or its confirmation. */
+export const allowsPaste = (field: "password" | "confirmation", policy = passwordFieldPolicy) =>
+  policy.paste === "allow" || (policy.paste === "confirmation-only" && field === "password");
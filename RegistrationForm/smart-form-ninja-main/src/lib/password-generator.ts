@@ -0,0 +1,53 @@
+// Free of React and of "@/" imports like the policy it builds on, so the API
+// could reuse it.
+
+import { evaluatePasswordPolicy, PASSWORD_POLICY, type PasswordPolicy } from "./password-policy";
+
+const SUGGESTED_LENGTH = 16;
+// Characters that are easy to misread (l/I/1, O/0) are left out, since people
+// sometimes copy suggested passwords by hand.
+const LOWERCASE = "abcdefghijkmnopqrstuvwxyz";
+const UPPERCASE = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+const DIGITS = "23456789";
+// Quotes, backslashes and backticks satisfy the policy but trip people up when pasting into other tools.
+const AWKWARD_SYMBOLS = "'\"`\\";
+
+/** Uniform integer in [0, max) from the platform CSPRNG, rejecting values that would bias the result. */
+const randomIndex = (max: number) => {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+};
+
+const pick = (characters: string) => characters[randomIndex(characters.length)];
+
+/**
+ * A random password that meets every rule in `policy`: one character from each
+ * required class, the rest from all of them, shuffled.
+ */
+export const generatePassword = (policy: PasswordPolicy = PASSWORD_POLICY, length = SUGGESTED_LENGTH) => {
+  const size = Math.min(Math.max(length, policy.minLength), policy.maxLength);
+  const symbols = [...policy.symbols].filter((char) => !AWKWARD_SYMBOLS.includes(char)).join("");
+  const classes = [
+    { characters: LOWERCASE, required: policy.require.lowercase },
+    { characters: UPPERCASE, required: policy.require.uppercase },
+    { characters: DIGITS, required: policy.require.number },
+    { characters: symbols, required: policy.require.symbol },
+  ];
+  const all = classes.map(({ characters }) => characters).join("");
+
+  for (;;) {
+    const chars = classes.filter(({ required }) => required).map(({ characters }) => pick(characters));
+    while (chars.length < size) chars.push(pick(all));
+    for (let i = chars.length - 1; i > 0; i--) {
+      const j = randomIndex(i + 1);
+      [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+    const password = chars.join("");
+    // Rarely a banned word turns up by chance; drawing again is simpler than patching it out.
+    if (evaluatePasswordPolicy(password, policy).every((rule) => rule.met)) return password;
+  }
+};
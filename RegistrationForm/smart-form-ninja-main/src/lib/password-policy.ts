@@ -0,0 +1,115 @@
+// Shared by the registration UI and the local API in /server, so keep this
+// module free of React and of "@/" imports.
+
+export interface PasswordPolicy {
+  minLength: number;
+  /** Upper bound, mostly so a huge password can't tie up the server's password hashing. */
+  maxLength: number;
+  require: {
+    lowercase: boolean;
+    uppercase: boolean;
+    number: boolean;
+    symbol: boolean;
+  };
+  /** Characters that satisfy the symbol requirement. */
+  symbols: string;
+  /** Rejected anywhere in the password, ignoring case. */
+  bannedWords: string[];
+}
+
+export type PasswordRuleId = "minLength" | "maxLength" | "lowercase" | "uppercase" | "number" | "symbol" | "bannedWords";
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  /** Checklist wording, e.g. "a number". */
+  label: string;
+  /** Error wording when the rule fails. */
+  message: string;
+  met: boolean;
+  /** Limits most users never hit are only listed once they fail. */
+  showWhenMet: boolean;
+}
+
+/** The one policy every form and the API enforce. Change it here. */
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  require: {
+    lowercase: false,
+    uppercase: false,
+    number: true,
+    symbol: true,
+  },
+  symbols: "!@#$%^&*()-_=+[]{};:'\",.<>/?\\|`~",
+  bannedWords: ["password", "classroom", "qwerty"],
+};
+
+const includesAny = (password: string, characters: string) => [...password].some((char) => characters.includes(char));
+
+/** Every rule in the policy with whether `password` meets it, in checklist order. */
+export const evaluatePasswordPolicy = (password: string, policy: PasswordPolicy = PASSWORD_POLICY) => {
+  const rules: PasswordRuleResult[] = [
+    {
+      id: "minLength",
+      label: `${policy.minLength} characters minimum`,
+      message: `Password must be at least ${policy.minLength} characters`,
+      met: password.length >= policy.minLength,
+      showWhenMet: true,
+    },
+    {
+      id: "maxLength",
+      label: `${policy.maxLength} characters maximum`,
+      message: `Password must be at most ${policy.maxLength} characters`,
+      met: password.length <= policy.maxLength,
+      showWhenMet: false,
+    },
+  ];
+
+  if (policy.require.lowercase) {
+    rules.push({
+      id: "lowercase",
+      label: "a lowercase letter",
+      message: "Password must contain a lowercase letter",
+      met: /[a-z]/.test(password),
+      showWhenMet: true,
+    });
+  }
+  if (policy.require.uppercase) {
+    rules.push({
+      id: "uppercase",
+      label: "an uppercase letter",
+      message: "Password must contain an uppercase letter",
+      met: /[A-Z]/.test(password),
+      showWhenMet: true,
+    });
+  }
+  if (policy.require.number) {
+    rules.push({
+      id: "number",
+      label: "a number",
+      message: "Password must contain a number",
+      met: /[0-9]/.test(password),
+      showWhenMet: true,
+    });
+  }
+  if (policy.require.symbol) {
+    rules.push({
+      id: "symbol",
+      label: "a symbol",
+      message: `Password must contain a symbol such as ${policy.symbols.slice(0, 8)}`,
+      met: includesAny(password, policy.symbols),
+      showWhenMet: true,
+    });
+  }
+
+  const bannedWord = policy.bannedWords.find((word) => password.toLowerCase().includes(word.toLowerCase()));
+  rules.push({
+    id: "bannedWords",
+    label: "no easily guessed words",
+    message: bannedWord ? `Password can't contain “${bannedWord}”` : "",
+    met: !bannedWord,
+    showWhenMet: false,
+  });
+
+  return rules;
+};
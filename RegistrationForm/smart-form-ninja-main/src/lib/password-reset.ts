@@ -0,0 +1,12 @@
+import { api } from "@/lib/api";
+import type { CodeSent } from "@/lib/registration";
+
+export const requestPasswordReset = (email: string) => api.post<CodeSent>("/password-reset/request", { email });
+
+export const resendPasswordResetCode = (email: string) => api.post<CodeSent>("/password-reset/resend", { email });
+
+export const verifyPasswordReset = (email: string, code: string) =>
+  api.post<{ resetToken: string }>("/password-reset/verify", { email, code });
+
+export const completePasswordReset = (resetToken: string, password: string) =>
+  api.post<{ email: string }>("/password-reset/complete", { resetToken, password });
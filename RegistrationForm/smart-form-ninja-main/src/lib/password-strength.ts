@@ -0,0 +1,272 @@
+// A small take on the zxcvbn approach: find guessable patterns in the
+// password, estimate how many guesses an attacker trying those patterns first
+// would need, and score the cheapest way to cover the whole password.
+
+import { COMMON_PASSWORD_WORDS } from "./password-dictionary";
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  /** log10 of the estimated number of guesses. */
+  guessesLog10: number;
+  /** Human-readable time to crack offline against a slow password hash. */
+  crackTime: string;
+  /** The most important problem, if any. */
+  warning?: string;
+  suggestions: string[];
+}
+
+export const PASSWORD_SCORE_LABELS: Record<PasswordScore, string> = {
+  0: "Very weak",
+  1: "Weak",
+  2: "Fair",
+  3: "Strong",
+  4: "Very strong",
+};
+
+type PatternKind = "dictionary" | "user-input" | "keyboard" | "repeat" | "sequence" | "date";
+
+interface Match {
+  kind: PatternKind;
+  start: number;
+  /** Exclusive. */
+  end: number;
+  guesses: number;
+}
+
+const KEYBOARD_ROWS = ["`1234567890-=", "qwertyuiop[]\\", "asdfghjkl;'", "zxcvbnm,./"];
+const LEET: Record<string, string> = { "4": "a", "@": "a", "3": "e", "1": "i", "!": "i", "0": "o", $: "s", "5": "s", "7": "t" };
+// Guesses per second for an offline attack on a deliberately slow hash such as scrypt or bcrypt.
+const GUESSES_PER_SECOND = 1e4;
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2049;
+
+const dictionaryRanks = new Map(COMMON_PASSWORD_WORDS.map((word, index) => [word, index + 1]));
+
+/** Extra guesses for capitalisation beyond all-lowercase, e.g. `Password` or `PASSWORD`. */
+const caseVariations = (token: string) => {
+  if (token === token.toLowerCase()) return 1;
+  if (token === token.toUpperCase() || /^[A-Z][^A-Z]*$/.test(token)) return 2;
+  return 2 ** Math.min(token.replace(/[^A-Z]/g, "").length, 6);
+};
+
+const unleet = (token: string) =>
+  token
+    .toLowerCase()
+    .split("")
+    .map((char) => LEET[char] ?? char)
+    .join("");
+
+/** Distinctive fragments of the user's name and email that people often reuse in passwords. */
+const userTokens = (userInputs: string[]) =>
+  new Set(
+    userInputs
+      .flatMap((input) => input.toLowerCase().split(/[^a-z0-9]+/))
+      .filter((token) => token.length >= 3),
+  );
+
+const findWordMatches = (password: string, userInputs: Set<string>): Match[] => {
+  const matches: Match[] = [];
+  const lower = password.toLowerCase();
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + 3; end <= password.length; end++) {
+      const token = password.slice(start, end);
+      const candidates = [lower.slice(start, end), unleet(token)];
+      const reversed = candidates[0].split("").reverse().join("");
+      const variations = caseVariations(token) * (candidates[1] !== candidates[0] ? 2 : 1);
+
+      for (const candidate of candidates) {
+        if (userInputs.has(candidate)) {
+          matches.push({ kind: "user-input", start, end, guesses: variations });
+        }
+        const rank = dictionaryRanks.get(candidate);
+        if (rank) matches.push({ kind: "dictionary", start, end, guesses: rank * variations });
+      }
+      const reversedRank = dictionaryRanks.get(reversed);
+      if (reversedRank) matches.push({ kind: "dictionary", start, end, guesses: reversedRank * variations * 2 });
+    }
+  }
+  return matches;
+};
+
+const isKeyboardNeighbour = (a: string, b: string) =>
+  KEYBOARD_ROWS.some((row) => {
+    const index = row.indexOf(a.toLowerCase());
+    return index >= 0 && (row[index + 1] === b.toLowerCase() || row[index - 1] === b.toLowerCase());
+  });
+
+/** Runs of three or more characters where each is `linked` to the one before it. */
+const findRuns = (password: string, linked: (a: string, b: string) => boolean, kind: PatternKind): Match[] => {
+  const matches: Match[] = [];
+  let start = 0;
+  for (let i = 1; i <= password.length; i++) {
+    if (i < password.length && linked(password[i - 1], password[i])) continue;
+    const length = i - start;
+    if (length >= 3) {
+      // The first character can be any key; each later one has only a couple of choices.
+      const base = kind === "keyboard" ? 40 : /\d/.test(password[start]) ? 10 : 26;
+      matches.push({ kind, start, end: i, guesses: base * 2 * length });
+    }
+    start = i;
+  }
+  return matches;
+};
+
+const isSequenceStep = (a: string, b: string) => Math.abs(a.charCodeAt(0) - b.charCodeAt(0)) === 1;
+
+const findRepeatMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  const pattern = /(.+?)\1+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(password))) {
+    const [whole, unit] = match;
+    if (whole.length < 3) continue;
+    const unitGuesses = unit.length === 1 ? 26 : Math.min(95 ** unit.length, dictionaryRanks.get(unit) ?? Infinity);
+    matches.push({
+      kind: "repeat",
+      start: match.index,
+      end: match.index + whole.length,
+      guesses: unitGuesses * (whole.length / unit.length),
+    });
+  }
+  return matches;
+};
+
+const isYear = (value: string) => {
+  const year = Number(value);
+  return year >= MIN_YEAR && year <= MAX_YEAR;
+};
+
+const findDateMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  for (const match of password.matchAll(/\d{4,8}|\d{1,4}[-/._]\d{1,2}[-/._]\d{1,4}/g)) {
+    const digits = match[0].replace(/\D/g, "");
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const hasYear = isYear(digits.slice(0, 4)) || isYear(digits.slice(-4));
+    if (digits.length === 4 && hasYear) {
+      matches.push({ kind: "date", start, end, guesses: MAX_YEAR - MIN_YEAR });
+    } else if (digits.length >= 6 && (hasYear || match[0].length > digits.length)) {
+      // Day, month and a year within the range, in any common order.
+      matches.push({ kind: "date", start, end, guesses: 365 * (MAX_YEAR - MIN_YEAR) * 3 });
+    }
+  }
+  return matches;
+};
+
+const charsetSize = (password: string) =>
+  (/[a-z]/.test(password) ? 26 : 0) +
+  (/[A-Z]/.test(password) ? 26 : 0) +
+  (/\d/.test(password) ? 10 : 0) +
+  (/[^a-zA-Z\d]/.test(password) ? 33 : 0);
+
+/**
+ * Minimum guesses to produce the password as a sequence of matched patterns
+ * and brute-forced characters, computed left to right in log space.
+ */
+const cheapestCover = (password: string, matches: Match[]) => {
+  const bruteforceLog = Math.log10(Math.max(charsetSize(password), 10));
+  const best: { log: number; match?: Match }[] = [{ log: 0 }];
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { log: best[end - 1].log + bruteforceLog };
+    for (const match of matches) {
+      if (match.end !== end) continue;
+      // Each extra pattern costs a little, as the attacker must also guess how they combine.
+      const log = best[match.start].log + Math.log10(match.guesses) + (match.start > 0 ? 0.3 : 0);
+      if (log < best[end].log) best[end] = { log, match };
+    }
+  }
+
+  const used: Match[] = [];
+  for (let end = password.length; end > 0; ) {
+    const { match } = best[end];
+    if (match) used.unshift(match);
+    end = match ? match.start : end - 1;
+  }
+  return { guessesLog10: best[password.length].log, used };
+};
+
+const toScore = (guessesLog10: number): PasswordScore => {
+  if (guessesLog10 < 3) return 0;
+  if (guessesLog10 < 6) return 1;
+  if (guessesLog10 < 8) return 2;
+  if (guessesLog10 < 10) return 3;
+  return 4;
+};
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 1) return "less than a second";
+  const units: [string, number][] = [
+    ["century", 100 * 365 * 24 * 3600],
+    ["year", 365 * 24 * 3600],
+    ["month", 30 * 24 * 3600],
+    ["day", 24 * 3600],
+    ["hour", 3600],
+    ["minute", 60],
+    ["second", 1],
+  ];
+  if (seconds >= 100 * units[0][1]) return "centuries";
+  for (const [unit, size] of units) {
+    if (seconds < size) continue;
+    const count = Math.floor(seconds / size);
+    const plural = unit === "century" ? "centuries" : `${unit}s`;
+    return `${count} ${count === 1 ? unit : plural}`;
+  }
+  return "less than a second";
+};
+
+const WARNINGS: Record<PatternKind, string> = {
+  dictionary: "This is similar to a commonly used password.",
+  "user-input": "Avoid using your name or email address in your password.",
+  keyboard: "Straight rows of keys like “qwerty” are easy to guess.",
+  repeat: "Repeats like “aaa” or “abcabc” are easy to guess.",
+  sequence: "Sequences like “abc” or “6543” are easy to guess.",
+  date: "Dates and years are often easy to guess.",
+};
+
+const SUGGESTIONS: Partial<Record<PatternKind, string>> = {
+  dictionary: "Capital letters and substitutions like “@” for “a” don't make a common word much harder to guess.",
+  "user-input": "Leave out anything that can be found from your account details.",
+  keyboard: "Use a longer keyboard pattern with more turns, or avoid patterns entirely.",
+  repeat: "Avoid repeated words and characters.",
+  sequence: "Avoid sequences.",
+  date: "Avoid dates and years that are associated with you.",
+};
+
+/**
+ * Estimates how hard `password` is to guess. `userInputs` are strings the
+ * attacker is assumed to know, such as the user's name and email.
+ */
+export const estimatePasswordStrength = (password: string, userInputs: string[] = []): PasswordStrength => {
+  if (!password) {
+    return { score: 0, guessesLog10: 0, crackTime: formatDuration(0), suggestions: [] };
+  }
+
+  const matches = [
+    ...findWordMatches(password, userTokens(userInputs)),
+    ...findRuns(password, isKeyboardNeighbour, "keyboard"),
+    ...findRuns(password, isSequenceStep, "sequence"),
+    ...findRepeatMatches(password),
+    ...findDateMatches(password),
+  ];
+  const { guessesLog10, used } = cheapestCover(password, matches);
+  const score = toScore(guessesLog10);
+
+  // The longest pattern is the one most worth telling the user about.
+  const main = [...used].sort((a, b) => b.end - b.start - (a.end - a.start))[0];
+  const suggestions: string[] = [];
+  if (score < 3) suggestions.push("Add another word or two. Uncommon words are better.");
+  if (main && score < 4) {
+    const suggestion = SUGGESTIONS[main.kind];
+    if (suggestion) suggestions.push(suggestion);
+  }
+
+  return {
+    score,
+    guessesLog10,
+    crackTime: formatDuration(10 ** guessesLog10 / GUESSES_PER_SECOND),
+    warning: main && score < 3 ? WARNINGS[main.kind] : undefined,
+    suggestions,
+  };
+};
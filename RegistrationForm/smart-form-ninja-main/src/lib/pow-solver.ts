@@ -0,0 +1,32 @@
+import { ApiError } from "@/lib/api";
+import type { PowChallenge, PowSolution } from "@/lib/proof-of-work";
+
+/** Solves `challenge` in a Web Worker. Aborting `signal` stops the worker and rejects with an `AbortError`. */
+export const solvePowChallenge = (challenge: PowChallenge, signal?: AbortSignal) =>
+  new Promise<PowSolution>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Proof of work aborted", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("../workers/pow.worker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      signal?.removeEventListener("abort", abort);
+      worker.terminate();
+    };
+    const abort = () => {
+      finish();
+      reject(new DOMException("Proof of work aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<{ nonce: number }>) => {
+      finish();
+      resolve({ token: challenge.token, nonce: event.data.nonce });
+    };
+    worker.onerror = () => {
+      finish();
+      reject(new ApiError(0, "pow_failed", "Your browser couldn't complete the security check. Please try again."));
+    };
+    worker.postMessage({ salt: challenge.salt, difficulty: challenge.difficulty });
+  });
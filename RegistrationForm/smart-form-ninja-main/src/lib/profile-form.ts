@@ -0,0 +1,39 @@
+import type { FormSchema } from "@/lib/form-schema";
+import { ACCOUNT_FIELD_RULES, type ProfileDetails } from "@/lib/registration-schemas";
+
+/** The role question and the fields that follow from it, shared by both sign-up forms. */
+export const PROFILE_FORM: FormSchema<keyof ProfileDetails> = [
+  {
+    name: "role",
+    type: "select",
+    label: "I'm signing up as a",
+    placeholder: "Choose one",
+    options: [
+      { value: "student", label: "Student" },
+      { value: "teacher", label: "Teacher" },
+      { value: "parent", label: "Parent" },
+    ],
+  },
+  {
+    name: "age",
+    type: "number",
+    label: "Age",
+    placeholder: "16",
+    when: ACCOUNT_FIELD_RULES.age,
+  },
+  {
+    name: "guardianEmail",
+    type: "email",
+    label: "Parent or Guardian's Email",
+    placeholder: "parent@example.com",
+    when: ACCOUNT_FIELD_RULES.guardianEmail,
+  },
+  {
+    name: "schoolName",
+    type: "text",
+    label: "School Name",
+    placeholder: "Springfield Elementary",
+    autoComplete: "organization",
+    when: ACCOUNT_FIELD_RULES.schoolName,
+  },
+];
@@ -0,0 +1,32 @@
+// Shared by the sign-up form's solver and the local API in /server, so keep this
+// module free of React and of "@/" imports.
+
+/**
+ * A puzzle from the API: find a nonce such that the SHA-256 of
+ * `powInput(salt, nonce)` starts with `difficulty` zero bits. Each extra bit
+ * doubles the expected work.
+ */
+export interface PowChallenge {
+  /** Signed by the server; sent back unchanged with the solution. */
+  token: string;
+  salt: string;
+  difficulty: number;
+  /** Seconds until the server stops accepting a solution. */
+  expiresIn: number;
+}
+
+export interface PowSolution {
+  token: string;
+  nonce: number;
+}
+
+export const powInput = (salt: string, nonce: number) => `${salt}:${nonce}`;
+
+export const hasLeadingZeroBits = (hash: Uint8Array, bits: number) => {
+  const fullBytes = Math.floor(bits / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (hash[i] !== 0) return false;
+  }
+  const remainder = bits % 8;
+  return remainder === 0 || hash[fullBytes] >> (8 - remainder) === 0;
+};
@@ -0,0 +1,37 @@
+const RANGE_ENDPOINT = "/api/pwned/range";
+const LOOKUP_TIMEOUT_MS = 3000;
+
+const sha1Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+};
+
+/**
+ * How many times `password` appears in known breaches, via a k-anonymous range
+ * query: only the first five characters of its SHA-1 are sent, and the suffix
+ * is matched locally. Resolves to `null` when the lookup is unavailable, in
+ * which case callers should let the user continue; the server checks again.
+ */
+export const checkPasswordBreached = async (password: string): Promise<number | null> => {
+  try {
+    const hash = await sha1Hex(password);
+    const prefix = hash.slice(0, 5);
+    const suffix = hash.slice(5);
+
+    const response = await fetch(`${RANGE_ENDPOINT}/${prefix}`, {
+      headers: { "Add-Padding": "true" },
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+
+    for (const line of (await response.text()).split("\n")) {
+      const [candidate, count] = line.trim().split(":");
+      if (candidate === suffix) return Number(count) || 0;
+    }
+    return 0;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,147 @@
+// Shared by the sign-up forms and the local API in /server, so keep this
+// module free of React and of "@/" imports.
+
+import { z } from "zod";
+import { isFieldActive, type FieldRules } from "./field-rules";
+import {
+  validateAge,
+  validateEmail,
+  validateGuardianEmail,
+  validateName,
+  validateOTP,
+  validatePassword,
+  validatePasswordConfirmation,
+  validatePhone,
+  validateRole,
+  validateSchoolName,
+  validateTotp,
+} from "./validation";
+
+/** A string checked by one of the `validate*` helpers, so forms and API report the same messages. */
+const checkedString = (validate: (value: string) => string | undefined) =>
+  z.string().superRefine((value, ctx) => {
+    const message = validate(value);
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  });
+
+export const nameSchema = checkedString(validateName);
+export const emailSchema = checkedString(validateEmail);
+export const phoneSchema = checkedString(validatePhone);
+export const otpSchema = checkedString(validateOTP);
+export const passwordSchema = checkedString((password) => validatePassword(password));
+
+/**
+ * Who the account is for, and the answers that depend on it. Asked by both
+ * sign-up forms; `refineAccountRules` checks the ones that apply.
+ */
+export const profileFieldsSchema = z.object({
+  role: checkedString(validateRole),
+  age: z.string().optional(),
+  schoolName: z.string().optional(),
+  guardianEmail: z.string().optional(),
+});
+
+export type ProfileDetails = z.infer<typeof profileFieldsSchema>;
+
+/**
+ * The single-page sign-up form's fields. Use `accountSchema`, which adds the
+ * conditional fields' rules, unless you need to `extend` it first.
+ */
+export const accountFieldsSchema = z
+  .object({
+    name: nameSchema,
+    email: emailSchema,
+    phone: phoneSchema,
+    password: passwordSchema,
+  })
+  .merge(profileFieldsSchema);
+
+export type AccountDetails = z.infer<typeof accountFieldsSchema>;
+
+/** Which profile fields depend on earlier answers. */
+export const ACCOUNT_FIELD_RULES: FieldRules<keyof ProfileDetails> = {
+  age: { field: "role", equals: "student" },
+  schoolName: { field: "role", equals: "teacher" },
+  guardianEmail: { field: "age", lessThan: 13 },
+};
+
+const conditionalChecks: Partial<Record<keyof ProfileDetails, (value: string) => string | undefined>> = {
+  age: validateAge,
+  schoolName: validateSchoolName,
+  guardianEmail: validateGuardianEmail,
+};
+
+/** Validates the conditional fields that apply to these answers and ignores the rest. */
+export const refineAccountRules = (values: ProfileDetails, ctx: z.RefinementCtx) => {
+  for (const [field, validate] of Object.entries(conditionalChecks)) {
+    if (!isFieldActive(ACCOUNT_FIELD_RULES, field as keyof ProfileDetails, values)) continue;
+    const message = validate(values[field as keyof ProfileDetails] ?? "");
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+  }
+};
+
+/** The single-page sign-up form, and the body of `POST /registration/account`. */
+export const accountSchema = accountFieldsSchema.superRefine(refineAccountRules);
+
+/** The profile sent with the password or passkey that completes the multi-step sign-up. */
+export const profileSchema = profileFieldsSchema.superRefine(refineAccountRules);
+
+/** The email, code and new password steps that sign-up and password reset share. */
+const verifiedPasswordFields = z.object({
+  email: emailSchema,
+  otp: otpSchema,
+  password: passwordSchema,
+  confirmPassword: z.string(),
+});
+
+/** `confirmPassword` is only checked when the confirm field is shown. */
+const refinePasswordConfirmation =
+  (confirmPassword: boolean) =>
+  (values: Pick<z.infer<typeof verifiedPasswordFields>, "password" | "confirmPassword">, ctx: z.RefinementCtx) => {
+    if (!confirmPassword) return;
+    const message = validatePasswordConfirmation(values.password, values.confirmPassword);
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["confirmPassword"] });
+  };
+
+/** Every field of the multi-step sign-up. Each step validates its own fields. */
+export const signUpSchema = ({ confirmPassword }: { confirmPassword: boolean }) =>
+  verifiedPasswordFields.merge(profileFieldsSchema).superRefine((values, ctx) => {
+    refineAccountRules(values, ctx);
+    refinePasswordConfirmation(confirmPassword)(values, ctx);
+  });
+
+export type SignUpValues = z.infer<ReturnType<typeof signUpSchema>>;
+
+/** Every field of the password reset. Each step validates its own fields. */
+export const resetPasswordSchema = ({ confirmPassword }: { confirmPassword: boolean }) =>
+  verifiedPasswordFields.superRefine(refinePasswordConfirmation(confirmPassword));
+
+export type ResetPasswordValues = z.infer<ReturnType<typeof resetPasswordSchema>>;
+
+/** Only checks that a password was typed: the rules for new passwords don't apply to existing ones. */
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "Password is required"),
+});
+
+export type LoginValues = z.infer<typeof loginSchema>;
+
+/** The second sign-in step: an authenticator code, or a recovery code when `useRecoveryCode` is set. */
+export const secondFactorSchema = z
+  .object({
+    useRecoveryCode: z.boolean(),
+    code: z.string(),
+    recoveryCode: z.string(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.useRecoveryCode) {
+      if (!values.recoveryCode.trim()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Recovery code is required", path: ["recoveryCode"] });
+      }
+      return;
+    }
+    const message = validateTotp(values.code);
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["code"] });
+  });
+
+export type SecondFactorValues = z.infer<typeof secondFactorSchema>;
@@ -0,0 +1,77 @@
+import { api } from "@/lib/api";
+import type { Session } from "@/lib/auth";
+import type { BotSignals } from "@/lib/bot-signals";
+import type { PowChallenge, PowSolution } from "@/lib/proof-of-work";
+import type { AccountDetails, ProfileDetails } from "@/lib/registration-schemas";
+
+export interface RegisteredUser {
+  id: string;
+  email: string;
+}
+
+export interface OtpStatus {
+  /** Seconds until the issued code stops being accepted. */
+  expiresIn: number;
+  /** Seconds until another code may be requested. */
+  resendAvailableIn: number;
+  resendsRemaining: number;
+  attemptsRemaining: number;
+}
+
+export type CodeSent = OtpStatus & { email: string };
+
+/**
+ * `unknown` when the server is configured not to reveal whether an account
+ * exists; the client then lets the user continue as if the email were free.
+ */
+export type EmailStatus = "available" | "registered" | "unknown";
+
+export const checkEmailStatus = (email: string, signal?: AbortSignal) =>
+  api.post<{ email: string; status: EmailStatus }>("/registration/email-status", { email }, { signal });
+
+export const fetchPowChallenge = (signal?: AbortSignal) => api.get<PowChallenge>("/registration/challenge", { signal });
+
+/** Marks when a sign-up form appeared; send it back in `BotSignals`. */
+export const fetchFormToken = () => api.get<{ formToken: string }>("/registration/form-token");
+
+/** `pow` is a solved challenge from `fetchPowChallenge`; the API refuses to send a code without one. */
+export const startRegistration = (email: string, pow: PowSolution, signals: BotSignals) =>
+  api.post<CodeSent>("/registration/start", { email, pow, signals });
+
+/** One-step sign-up from the single-page form. The account stays unverified until its email is confirmed. */
+export const createAccount = (details: AccountDetails, signals: BotSignals) =>
+  api.post<{ user: RegisteredUser }>("/registration/account", { ...details, signals });
+
+export const resendRegistrationCode = (email: string) => api.post<CodeSent>("/registration/resend", { email });
+
+export const verifyRegistration = (email: string, code: string) =>
+  api.post<{ registrationToken: string }>("/registration/verify", { email, code });
+
+/** `profile` should only hold the answers that apply, as `activeValues` leaves them. */
+export const completeRegistration = (registrationToken: string, password: string, profile: ProfileDetails) =>
+  api.post<Session>("/registration/complete", { registrationToken, password, ...profile });
+
+export const verifyRegistrationLink = (token: string) =>
+  api.post<{ email: string; registrationToken: string }>("/registration/verify-link", { token });
+
+export interface EmailVerified {
+  email: string;
+  registrationToken: string;
+}
+
+const EMAIL_VERIFIED_CHANNEL = "registration:email-verified";
+
+/** Tells other tabs on this device (the one sitting on the code step) that the magic link was opened. */
+export const announceEmailVerified = (verified: EmailVerified) => {
+  if (typeof BroadcastChannel === "undefined") return;
+  const channel = new BroadcastChannel(EMAIL_VERIFIED_CHANNEL);
+  channel.postMessage(verified);
+  channel.close();
+};
+
+export const subscribeToEmailVerified = (listener: (verified: EmailVerified) => void) => {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+  const channel = new BroadcastChannel(EMAIL_VERIFIED_CHANNEL);
+  channel.onmessage = (event: MessageEvent<EmailVerified>) => listener(event.data);
+  return () => channel.close();
+};
@@ -0,0 +1,85 @@
+// Shared by the registration UI and the local API in /server, so keep this
+// module free of React and of "@/" imports.
+
+import { evaluatePasswordPolicy, PASSWORD_POLICY, type PasswordPolicy } from "./password-policy";
+
+export const OTP_LENGTH = 5;
+
+/** Digits in an authenticator app code (RFC 6238 default). */
+export const TOTP_LENGTH = 6;
+
+export const validateEmail = (email: string): string | undefined => {
+  if (!email.trim()) return "Email is required";
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (!emailRegex.test(email)) return "Please enter a valid email address";
+  return undefined;
+};
+
+export const validateName = (name: string): string | undefined => {
+  if (!name.trim()) return "Name is required";
+  if (name.trim().length < 2) return "Name must be at least 2 characters";
+  if (!/^[a-zA-Z\s]+$/.test(name)) return "Name can only contain letters and spaces";
+  return undefined;
+};
+
+export const validatePhone = (phone: string): string | undefined => {
+  if (!phone.trim()) return "Phone number is required";
+  const phoneRegex = /^[\d\s\-+()]+$/;
+  if (!phoneRegex.test(phone)) return "Please enter a valid phone number";
+  if (phone.replace(/\D/g, "").length < 10) return "Phone number must be at least 10 digits";
+  return undefined;
+};
+
+export const ROLES = ["student", "teacher", "parent"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const validateRole = (role: string): string | undefined => {
+  if (!ROLES.includes(role as Role)) return "Please choose who the account is for";
+  return undefined;
+};
+
+export const validateAge = (age: string): string | undefined => {
+  if (!age.trim()) return "Age is required";
+  const years = Number(age);
+  if (!Number.isInteger(years) || years < 1 || years > 120) return "Please enter a valid age";
+  return undefined;
+};
+
+export const validateSchoolName = (schoolName: string): string | undefined => {
+  if (!schoolName.trim()) return "School name is required";
+  if (schoolName.trim().length < 2) return "School name must be at least 2 characters";
+  return undefined;
+};
+
+export const validateGuardianEmail = (email: string): string | undefined => {
+  if (!email.trim()) return "A parent or guardian's email is required for students under 13";
+  return validateEmail(email);
+};
+
+export const validateOTP = (otp: string): string | undefined => {
+  if (!otp) return "Verification code is required";
+  if (otp.length !== OTP_LENGTH || !/^\d+$/.test(otp)) return `Code must be ${OTP_LENGTH} digits`;
+  return undefined;
+};
+
+export const validateTotp = (code: string): string | undefined => {
+  if (!code) return "Authentication code is required";
+  if (code.length !== TOTP_LENGTH || !/^\d+$/.test(code)) return `Code must be ${TOTP_LENGTH} digits`;
+  return undefined;
+};
+
+export const validatePassword = (password: string, policy: PasswordPolicy = PASSWORD_POLICY): string | undefined => {
+  if (!password) return "Password is required";
+  return evaluatePasswordPolicy(password, policy).find((rule) => !rule.met)?.message;
+};
+
+export const validatePasswordConfirmation = (password: string, confirmation: string): string | undefined => {
+  if (!confirmation) return "Please confirm your password";
+  if (confirmation !== password) return "Passwords don't match";
+  return undefined;
+};
+
+export const breachedPasswordMessage = (count: number) =>
+  `This password has appeared ${count.toLocaleString("en-US")} times in known data breaches, so attackers try it early. ` +
+  "Please choose a different one.";
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import AuthLayout from "@/components/AuthLayout";
+import { useAuth } from "@/hooks/use-auth";
+import { refreshSession } from "@/lib/auth";
+import { oauthErrorMessage } from "@/lib/oauth";
+
+/**
+ * Landing page after a social sign-in: the server has set the session cookie,
+ * so adopt the session, or hands over a second-factor challenge to complete first.
+ */
+const AuthCallback = () => {
+  const [searchParams] = useSearchParams();
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const { signIn } = useAuth();
+  const errorCode = searchParams.get("error");
+  const mfaToken = new URLSearchParams(hash.slice(1)).get("mfaToken");
+  const [error, setError] = useState<string | null>(errorCode && oauthErrorMessage(errorCode));
+
+  useEffect(() => {
+    if (errorCode) return;
+    // Accounts with two-factor authentication finish on the log in page's code step. Replacing
+    // this entry keeps the challenge out of the browser history.
+    if (mfaToken) {
+      navigate("/login", { replace: true, state: { mfaToken } });
+      return;
+    }
+    refreshSession()
+      .then((session) => {
+        signIn(session);
+        navigate("/dashboard", { replace: true });
+      })
+      .catch(() => setError(oauthErrorMessage("provider_error")));
+  }, [errorCode, mfaToken, navigate, signIn]);
+
+  return (
+    <AuthLayout>
+      <Card className="w-full max-w-md text-center shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in zoom-in duration-500">
+        <CardContent className="pt-12 pb-12">
+          {error ? (
+            <>
+              <div className="flex justify-center mb-6">
+                <AlertCircle className="h-12 w-12 text-destructive" />
+              </div>
+              <p className="text-muted-foreground mb-8">{error}</p>
+              <Link to="/" className="text-primary font-semibold hover:underline">
+                Back to sign up
+              </Link>
+            </>
+          ) : (
+            <div className="flex flex-col items-center gap-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-muted-foreground">Signing you in…</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+};
+
+export default AuthCallback;
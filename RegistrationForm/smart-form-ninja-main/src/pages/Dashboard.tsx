@@ -0,0 +1,35 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import AuthLayout from "@/components/AuthLayout";
+import { useAuth } from "@/hooks/use-auth";
+
+const Dashboard = () => {
+  const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+
+  return (
+    <AuthLayout>
+      <Card className="w-full max-w-md text-center shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in zoom-in duration-500">
+        <CardHeader className="space-y-3 pb-6">
+          <CardTitle className="text-3xl font-bold">Welcome to Classroom</CardTitle>
+          <CardDescription className="text-base">Signed in as {user?.email}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            className="w-full py-6"
+            onClick={async () => {
+              await signOut();
+              navigate("/login");
+            }}
+          >
+            Log out
+          </Button>
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,7 @@
+import LoginForm from "@/components/LoginForm";
+
+const Login = () => {
+  return <LoginForm />;
+};
+
+export default Login;
@@ -0,0 +1,7 @@
+import ResetPasswordForm from "@/components/ResetPasswordForm";
+
+const ResetPassword = () => {
+  return <ResetPasswordForm />;
+};
+
+export default ResetPassword;
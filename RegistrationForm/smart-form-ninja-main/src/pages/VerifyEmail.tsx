@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import AuthLayout from "@/components/AuthLayout";
+import { ApiError } from "@/lib/api";
+import { announceEmailVerified, verifyRegistrationLink, type EmailVerified } from "@/lib/registration";
+
+/** Target of the magic link mailed alongside the verification code. */
+const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [verified, setVerified] = useState<EmailVerified | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Links are single-use, so never redeem twice from the same page.
+    if (requested.current) return;
+    requested.current = true;
+
+    const token = searchParams.get("token");
+    if (!token) {
+      setError("This verification link is not valid");
+      return;
+    }
+    verifyRegistrationLink(token)
+      .then((result) => {
+        setVerified(result);
+        announceEmailVerified(result);
+      })
+      .catch((err) => {
+        setError(err instanceof ApiError ? err.message : "Something went wrong. Please try again.");
+      });
+  }, [searchParams]);
+
+  return (
+    <AuthLayout>
+      <Card className="w-full max-w-md text-center shadow-[var(--shadow-form)] border-primary/20 relative z-10 animate-in fade-in zoom-in duration-500">
+        <CardContent className="pt-12 pb-12">
+          {verified ? (
+            <>
+              <div className="flex justify-center mb-6">
+                <div className="rounded-full bg-gradient-to-br from-primary to-accent p-4">
+                  <CheckCircle2 className="h-16 w-16 text-primary-foreground" />
+                </div>
+              </div>
+              <h2 className="text-3xl font-bold mb-4 text-foreground">Email verified!</h2>
+              <p className="text-muted-foreground mb-8">
+                You can return to the tab where you started, or continue creating your account here.
+              </p>
+              <Button
+                onClick={() => navigate("/", { replace: true, state: verified })}
+                className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-opacity text-primary-foreground"
+              >
+                Continue here
+              </Button>
+            </>
+          ) : error ? (
+            <>
+              <div className="flex justify-center mb-6">
+                <AlertCircle className="h-12 w-12 text-destructive" />
+              </div>
+              <p className="text-muted-foreground mb-8">{error}</p>
+              <Link to="/" className="text-primary font-semibold hover:underline">
+                Back to sign up
+              </Link>
+            </>
+          ) : (
+            <div className="flex flex-col items-center gap-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-muted-foreground">Verifying your email…</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+};
+
+export default VerifyEmail;
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+/** The email typo and disposable-domain policy, injected by vite.config.ts. */
+declare const __EMAIL_QUALITY_POLICY__: import("./lib/email-quality").EmailQualityPolicy;
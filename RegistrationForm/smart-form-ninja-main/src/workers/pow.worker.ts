@@ -0,0 +1,14 @@
+import { hasLeadingZeroBits, powInput } from "@/lib/proof-of-work";
+
+// Brute-forces a proof-of-work nonce off the main thread so typing stays smooth.
+self.onmessage = async (event: MessageEvent<{ salt: string; difficulty: number }>) => {
+  const { salt, difficulty } = event.data;
+  const encoder = new TextEncoder();
+  for (let nonce = 0; ; nonce++) {
+    const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(powInput(salt, nonce))));
+    if (hasLeadingZeroBits(hash, difficulty)) {
+      self.postMessage({ nonce });
+      return;
+    }
+  }
+};
@@ -1,18 +1,30 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { registrationApi } from "./server";
+import { emailQualityPolicyFrom } from "./src/lib/email-quality";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-  },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  // One email policy for the client and the API. The variables are unprefixed
+  // so the standalone API reads them too, which keeps them out of
+  // import.meta.env; hand the parsed policy to both sides from here instead.
+  const emailQuality = emailQualityPolicyFrom(loadEnv(mode, process.cwd(), ""));
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+    },
+    define: {
+      __EMAIL_QUALITY_POLICY__: JSON.stringify(emailQuality),
+    },
+    plugins: [react(), registrationApi({ emailQuality }), mode === "development" && componentTagger()].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});